@@ -3,13 +3,21 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'react-hot-toast';              // ➊ novo
 import { AuthProvider } from './hooks/useAuth';
+import { PeriodProvider } from './hooks/usePeriod';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Layout } from './components/Layout';
 import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import { Restaurants } from './pages/Restaurants';
+import { RestaurantDetail } from './pages/RestaurantDetail';
 import { OSCs } from './pages/OSCs';
+import { OSCDetail } from './pages/OSCDetail';
 import { Donations } from './pages/Donations';
+import { DonationHistory } from './pages/DonationHistory';
+import { DonationDetail } from './pages/DonationDetail';
+import { MapView } from './pages/MapView';
+import { Coverage } from './pages/Coverage';
+import { ImpactSettings } from './pages/ImpactSettings';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -35,15 +43,24 @@ function App() {
               path="/"
               element={
                 <ProtectedRoute>
-                  <Layout />
+                  <PeriodProvider>
+                    <Layout />
+                  </PeriodProvider>
                 </ProtectedRoute>
               }
             >
               <Route index element={<Navigate to="/dashboard" replace />} />
               <Route path="dashboard" element={<Dashboard />} />
               <Route path="restaurants" element={<Restaurants />} />
+              <Route path="restaurants/:restaurantId" element={<RestaurantDetail />} />
               <Route path="oscs" element={<OSCs />} />
+              <Route path="oscs/:oscId" element={<OSCDetail />} />
               <Route path="donations" element={<Donations />} />
+              <Route path="donations/history" element={<DonationHistory />} />
+              <Route path="donations/:donationId" element={<DonationDetail />} />
+              <Route path="map" element={<MapView />} />
+              <Route path="coverage" element={<Coverage />} />
+              <Route path="impact" element={<ProtectedRoute permission="impact.manage"><ImpactSettings /></ProtectedRoute>} />
             </Route>
           </Routes>
         </Router>
@@ -0,0 +1,294 @@
+import { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Calendar, CheckCircle, Filter, Heart, Package, TrendingUp, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useChangedKeys } from '../hooks/useChangedKeys';
+import { useRestaurants } from '../hooks/useRestaurants';
+import { useOSCs } from '../hooks/useOSCs';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+type FeedItem = {
+  event_at: string;  // ISO
+  event_type: 'new_partnership' | 'donation_accepted' | 'donation_denied' | 'donation_picked_up';
+  description: string;
+  restaurant_id: string | null;
+  osc_id: string | null;
+  donation_id: string | null;
+};
+
+type FeedFilters = {
+  eventType: '' | FeedItem['event_type'];
+  restaurantId: string;
+  oscId: string;
+};
+
+const EMPTY_FILTERS: FeedFilters = { eventType: '', restaurantId: '', oscId: '' };
+
+const EVENT_TYPE_OPTIONS: { value: FeedFilters['eventType']; label: string }[] = [
+  { value: '', label: 'Todos os eventos' },
+  { value: 'new_partnership', label: 'Novas parcerias' },
+  { value: 'donation_accepted', label: 'Doações aceitas' },
+  { value: 'donation_denied', label: 'Doações negadas' },
+  { value: 'donation_picked_up', label: 'Doações coletadas' },
+];
+
+const FEED_PAGE_SIZE = 20;
+
+// A view não expõe id: data + tipo + descrição identificam o evento
+const feedItemKey = (item: FeedItem) => `${item.event_at}|${item.event_type}|${item.description}`;
+
+/** Página da entidade descrita pelo evento. */
+const feedItemLink = (item: FeedItem) => {
+  if (item.event_type === 'new_partnership') {
+    return item.restaurant_id ? `/restaurants/${item.restaurant_id}` : item.osc_id ? `/oscs/${item.osc_id}` : null;
+  }
+  return item.donation_id ? `/donations/${item.donation_id}` : null;
+};
+
+/* ------------------------------------------------------------------ */
+/* Hooks                                                               */
+/* ------------------------------------------------------------------ */
+// `event_at` não é único: a próxima página parte do mesmo instante (lte) e
+// descarta os eventos desse instante que já foram carregados
+type FeedCursor = { at: string; loaded: string[] };
+
+/**
+ * Feed paginado por cursor em `event_at` (cada página pega os eventos
+ * anteriores ao último recebido). Fica sob ['admin', 'feed'] para ser
+ * invalidado pelo Realtime.
+ */
+function useAdminFeed(filters: FeedFilters) {
+  return useInfiniteQuery({
+    queryKey: ['admin', 'feed', filters],
+    queryFn: async ({ pageParam }: { pageParam: FeedCursor | null }) => {
+      let query = supabase
+        .from('v_admin_recent_activity')
+        .select('*')
+        .order('event_at', { ascending: false })
+        .limit(FEED_PAGE_SIZE + (pageParam?.loaded.length ?? 0));
+
+      if (pageParam) query = query.lte('event_at', pageParam.at);
+      if (filters.eventType) query = query.eq('event_type', filters.eventType);
+      if (filters.restaurantId) query = query.eq('restaurant_id', filters.restaurantId);
+      if (filters.oscId) query = query.eq('osc_id', filters.oscId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const loaded = new Set(pageParam?.loaded);
+      return (data as FeedItem[]).filter(item => !loaded.has(feedItemKey(item))).slice(0, FEED_PAGE_SIZE);
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage, allPages): FeedCursor | undefined => {
+      if (lastPage.length < FEED_PAGE_SIZE) return undefined;
+      const at = lastPage[lastPage.length - 1].event_at;
+      return {
+        at,
+        loaded: allPages.flat().filter(item => item.event_at === at).map(feedItemKey),
+      };
+    },
+    staleTime: 30_000,
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+export function ActivityFeed() {
+  const [filters, setFilters] = useState<FeedFilters>(EMPTY_FILTERS);
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useAdminFeed(filters);
+  const { data: restaurants } = useRestaurants();
+  const { data: oscs } = useOSCs();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const feed = data?.pages.flat() ?? [];
+  // Só a 1ª página recebe eventos novos; páginas antigas carregadas no
+  // scroll não devem piscar como novidade
+  const changedFeedKeys = useChangedKeys(data?.pages[0], feedItemKey);
+
+  /* ------------------------- scroll infinito ------------------------- */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const update = (patch: Partial<FeedFilters>) => setFilters(f => ({ ...f, ...patch }));
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center">
+          <Calendar className="h-5 w-5 text-blue-600 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900">Atividades Recentes</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Filter className="h-4 w-4 text-gray-400" />
+          <select
+            value={filters.eventType}
+            onChange={(e) => update({ eventType: e.target.value as FeedFilters['eventType'] })}
+            className={selectClass}
+          >
+            {EVENT_TYPE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <select
+            value={filters.restaurantId}
+            onChange={(e) => update({ restaurantId: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">Todos os restaurantes</option>
+            {restaurants?.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          <select
+            value={filters.oscId}
+            onChange={(e) => update({ oscId: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">Todas as OSCs</option>
+            {oscs?.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+          </select>
+          {hasFilters && (
+            <button
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              Limpar
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200 max-h-[640px] overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+          </div>
+        ) : feed.length > 0 ? (
+          <>
+            {feed.map((item) => (
+              <FeedItemComponent
+                key={feedItemKey(item)}
+                item={item}
+                highlighted={changedFeedKeys.has(feedItemKey(item))}
+              />
+            ))}
+            <div ref={sentinelRef} className="py-4 text-center text-xs text-gray-400">
+              {isFetchingNextPage ? 'Carregando...' : hasNextPage ? '' : 'Fim das atividades'}
+            </div>
+          </>
+        ) : (
+          <EmptyFeedState filtered={hasFilters} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const selectClass =
+  'px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const FeedItemComponent = ({ item, highlighted = false }: { item: FeedItem; highlighted?: boolean }) => {
+  const getEventIcon = (eventType: FeedItem['event_type']) => {
+    switch (eventType) {
+      case 'new_partnership':
+        return <Heart className="h-5 w-5 text-blue-500" />;
+      case 'donation_accepted':
+        return <CheckCircle className="h-5 w-5 text-green-500" />;
+      case 'donation_denied':
+        return <XCircle className="h-5 w-5 text-red-500" />;
+      case 'donation_picked_up':
+        return <Package className="h-5 w-5 text-purple-500" />;
+      default:
+        return <Calendar className="h-5 w-5 text-gray-500" />;
+    }
+  };
+
+  const getEventColor = (eventType: FeedItem['event_type']) => {
+    switch (eventType) {
+      case 'new_partnership':
+        return 'bg-blue-50 border-blue-200';
+      case 'donation_accepted':
+        return 'bg-green-50 border-green-200';
+      case 'donation_denied':
+        return 'bg-red-50 border-red-200';
+      case 'donation_picked_up':
+        return 'bg-purple-50 border-purple-200';
+      default:
+        return 'bg-gray-50 border-gray-200';
+    }
+  };
+
+  const formatEventTime = (isoString: string) => {
+    const date = new Date(isoString);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffHours < 1) {
+      const diffMinutes = Math.floor(diffMs / (1000 * 60));
+      return `${diffMinutes}min atrás`;
+    } else if (diffHours < 24) {
+      return `${diffHours}h atrás`;
+    } else if (diffDays < 7) {
+      return `${diffDays}d atrás`;
+    } else {
+      return date.toLocaleDateString('pt-BR', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+      });
+    }
+  };
+
+  const link = feedItemLink(item);
+
+  return (
+    <div className={`px-6 py-4 transition-colors duration-700 ${highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+      <div className="flex items-start space-x-4">
+        <div className={`flex-shrink-0 w-10 h-10 rounded-full border-2 ${getEventColor(item.event_type)} flex items-center justify-center`}>
+          {getEventIcon(item.event_type)}
+        </div>
+        <div className="flex-1 min-w-0">
+          {link ? (
+            <Link to={link} className="text-sm text-gray-900 leading-relaxed hover:text-blue-700 hover:underline">
+              {item.description}
+            </Link>
+          ) : (
+            <p className="text-sm text-gray-900 leading-relaxed">
+              {item.description}
+            </p>
+          )}
+          <div className="mt-1 flex items-center text-xs text-gray-500">
+            <Calendar className="h-3 w-3 mr-1" />
+            {formatEventTime(item.event_at)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const EmptyFeedState = ({ filtered }: { filtered: boolean }) => (
+  <div className="text-center py-16">
+    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+      <TrendingUp className="w-8 h-8 text-gray-400" />
+    </div>
+    <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhuma atividade recente</h3>
+    <p className="text-gray-500 max-w-sm mx-auto">
+      {filtered
+        ? 'Nenhuma atividade corresponde aos filtros selecionados.'
+        : 'As atividades da plataforma aparecerão aqui conforme acontecem.'}
+    </p>
+  </div>
+);
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type MapPoint = {
+  id: string;
+  kind: 'restaurant' | 'osc';
+  name: string;
+  lat: number;
+  lng: number;
+  inactive?: boolean;
+};
+
+export type MapLink = {
+  key: string;
+  from: [number, number];
+  to: [number, number];
+  favorite: boolean;
+  label: string;
+};
+
+interface Props {
+  points: MapPoint[];
+  links: MapLink[];
+  onSelect: (point: MapPoint) => void;
+}
+
+/* ------------------------------------------------------------------ */
+/* Configuração                                                        */
+/* ------------------------------------------------------------------ */
+// Camada de tiles opcional (ex.: servidor local). Sem ela o mapa usa só
+// o fundo liso + marcadores vetoriais, o que funciona offline.
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL as string | undefined;
+const TILE_ATTRIBUTION = (import.meta.env.VITE_MAP_TILE_ATTRIBUTION as string | undefined) ?? '';
+
+// Centro do Brasil, usado enquanto não há pontos
+const DEFAULT_CENTER: L.LatLngTuple = [-14.2, -51.9];
+
+const COLORS = {
+  restaurant: '#2563eb',
+  osc: '#16a34a',
+  inactive: '#9ca3af',
+  link: '#93c5fd',
+  favorite: '#ef4444',
+};
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+/** Mapa Leaflet com marcadores circulares e linhas de parceria. */
+export function AdminMap({ points, links, onSelect }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  /* --------------------------- criação ------------------------------ */
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current, { preferCanvas: true }).setView(DEFAULT_CENTER, 4);
+    if (TILE_URL) L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+
+    mapRef.current = map;
+    layerRef.current = L.layerGroup().addTo(map);
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      layerRef.current = null;
+    };
+  }, []);
+
+  /* ------------------------ desenho dos dados ------------------------ */
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+
+    // Linhas primeiro para ficarem atrás dos marcadores
+    for (const link of links) {
+      L.polyline([link.from, link.to], {
+        color: link.favorite ? COLORS.favorite : COLORS.link,
+        weight: link.favorite ? 3 : 2,
+        opacity: 0.8,
+      })
+        .bindTooltip(link.label, { sticky: true })
+        .addTo(layer);
+    }
+
+    for (const point of points) {
+      const color = point.inactive ? COLORS.inactive : COLORS[point.kind];
+      L.circleMarker([point.lat, point.lng], {
+        radius: point.kind === 'restaurant' ? 7 : 6,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: color,
+        fillOpacity: 0.9,
+      })
+        .bindTooltip(`${point.kind === 'restaurant' ? 'Restaurante' : 'OSC'}: ${point.name}`)
+        .on('click', () => onSelectRef.current(point))
+        .addTo(layer);
+    }
+
+    if (points.length > 0) {
+      map.fitBounds(L.latLngBounds(points.map(p => [p.lat, p.lng] as L.LatLngTuple)), {
+        padding: [40, 40],
+        maxZoom: 14,
+      });
+    }
+  }, [points, links]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-full w-full rounded-xl"
+      style={{ background: TILE_URL ? undefined : '#eef2f7' }}
+    />
+  );
+}
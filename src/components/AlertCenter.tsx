@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, Bell, BellRing, Clock, Settings, Truck, X } from 'lucide-react';
+import { useOngoingDonations } from '../hooks/useDonations';
+import { useNow } from '../hooks/useNow';
+import {
+  AlertSettings,
+  SlaAlert,
+  getSlaAlerts,
+  loadAlertSettings,
+  saveAlertSettings,
+} from '../lib/alerts';
+import { formatDateTime } from '../lib/donations';
+
+const notificationsSupported = typeof window !== 'undefined' && 'Notification' in window;
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+export function AlertCenter() {
+  const navigate = useNavigate();
+  const { data: donations } = useOngoingDonations();
+  const now = useNow(30_000);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported ? Notification.permission : 'unsupported',
+  );
+  const notified = useRef<Set<string>>(new Set());
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const alerts = useMemo(() => getSlaAlerts(donations ?? [], now, settings), [donations, now, settings]);
+  const overdueCount = alerts.filter(a => a.kind === 'intent_expired' || a.kind === 'pickup_overdue').length;
+
+  const openDonation = (donationId: string) => {
+    setIsOpen(false);
+    navigate(`/donations/${donationId}`);
+  };
+
+  // O clique na notificação pode vir bem depois; usa sempre a versão atual
+  const openDonationRef = useRef(openDonation);
+  useEffect(() => {
+    openDonationRef.current = openDonation;
+  });
+
+  /* --------------- notificações do navegador (uma por key) ---------- */
+  useEffect(() => {
+    if (permission !== 'granted') return;
+    for (const alert of alerts) {
+      if (notified.current.has(alert.key)) continue;
+      notified.current.add(alert.key);
+
+      const n = new Notification(alert.title, { body: alert.description, tag: alert.key });
+      n.onclick = () => {
+        window.focus();
+        openDonationRef.current(alert.donationId);
+        n.close();
+      };
+    }
+  }, [alerts, permission]);
+
+  /* ---------------------- fecha ao clicar fora ---------------------- */
+  useEffect(() => {
+    if (!isOpen) return;
+    const onClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, [isOpen]);
+
+  const requestPermission = async () => {
+    if (!notificationsSupported) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const updateSettings = (patch: Partial<AlertSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveAlertSettings(next);
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="relative p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Alertas de prazo"
+      >
+        {alerts.length > 0 ? <BellRing className="h-5 w-5" /> : <Bell className="h-5 w-5" />}
+        {alerts.length > 0 && (
+          <span className={`absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full text-[10px] font-bold text-white flex items-center justify-center ${
+            overdueCount > 0 ? 'bg-red-600' : 'bg-yellow-500'
+          }`}>
+            {alerts.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-96 bg-white rounded-xl shadow-xl border border-gray-200 z-50 overflow-hidden">
+          {/* Header */}
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900">Alertas de prazo</h3>
+              <p className="text-xs text-gray-500">
+                {alerts.length === 0 ? 'Nenhum prazo em risco' : `${alerts.length} doação(ões) exigem atenção`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setShowSettings(s => !s)}
+                className={`p-1.5 rounded-lg transition-colors ${
+                  showSettings ? 'bg-blue-50 text-blue-600' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                }`}
+                title="Configurar alertas"
+              >
+                <Settings className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Configurações */}
+          {showSettings && (
+            <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 space-y-3">
+              <ThresholdInput
+                label="Avisar antes da oferta expirar"
+                value={settings.intentThresholdMin}
+                onChange={(v) => updateSettings({ intentThresholdMin: v })}
+              />
+              <ThresholdInput
+                label="Avisar antes do prazo de coleta"
+                value={settings.pickupThresholdMin}
+                onChange={(v) => updateSettings({ pickupThresholdMin: v })}
+              />
+              <div className="text-xs text-gray-600">
+                {permission === 'granted' && 'Notificações do navegador ativadas.'}
+                {permission === 'denied' && 'Notificações bloqueadas nas configurações do navegador.'}
+                {permission === 'unsupported' && 'Este navegador não suporta notificações.'}
+                {permission === 'default' && (
+                  <button
+                    onClick={requestPermission}
+                    className="font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Ativar notificações do navegador
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Lista */}
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {alerts.length === 0 ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-500">
+                Tudo em dia por aqui.
+              </div>
+            ) : (
+              alerts.map(alert => (
+                <AlertItem key={alert.key} alert={alert} onClick={() => openDonation(alert.donationId)} />
+              ))
+            )}
+          </div>
+
+          {permission === 'default' && !showSettings && (
+            <button
+              onClick={requestPermission}
+              className="w-full px-4 py-2 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 border-t border-blue-100 transition-colors"
+            >
+              Receber notificações do navegador
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const AlertItem = ({ alert, onClick }: { alert: SlaAlert; onClick: () => void }) => {
+  const style = {
+    intent_expiring: { icon: <Clock className="h-4 w-4 text-yellow-600" />, bg: 'bg-yellow-100' },
+    intent_expired: { icon: <AlertCircle className="h-4 w-4 text-red-600" />, bg: 'bg-red-100' },
+    pickup_near: { icon: <Truck className="h-4 w-4 text-blue-600" />, bg: 'bg-blue-100' },
+    pickup_overdue: { icon: <Truck className="h-4 w-4 text-red-600" />, bg: 'bg-red-100' },
+  }[alert.kind];
+
+  return (
+    <button
+      onClick={onClick}
+      className="w-full px-4 py-3 flex items-start space-x-3 text-left hover:bg-gray-50 transition-colors"
+    >
+      <div className={`w-8 h-8 ${style.bg} rounded-full flex items-center justify-center flex-shrink-0`}>
+        {style.icon}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-gray-900">{alert.title}</p>
+        <p className="text-xs text-gray-600">{alert.description}</p>
+        <p className="text-xs text-gray-400 mt-1">Prazo: {formatDateTime(alert.deadline)}</p>
+      </div>
+    </button>
+  );
+};
+
+const ThresholdInput = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) => (
+  <label className="flex items-center justify-between text-xs text-gray-700">
+    {label}
+    <span className="flex items-center">
+      <input
+        type="number"
+        min={5}
+        max={1440}
+        step={5}
+        value={value}
+        onChange={(e) => onChange(Math.max(5, Number(e.target.value) || 0))}
+        className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <span className="ml-1 text-gray-500">min</span>
+    </span>
+  </label>
+);
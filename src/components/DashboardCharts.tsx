@@ -0,0 +1,106 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AdminDonation } from '../lib/donations';
+import { IntentOutcomePoint, KgPoint, RankedKg } from '../lib/donationStats';
+
+/* ------------------------------------------------------------------ */
+/* Configuração                                                        */
+/* ------------------------------------------------------------------ */
+const AXIS_TICK = { fontSize: 12, fill: '#6b7280' };
+
+const STATUS_META: Record<AdminDonation['donation_status'], { label: string; color: string }> = {
+  pending: { label: 'Aguardando aceite', color: '#eab308' },
+  accepted: { label: 'Aceita', color: '#3b82f6' },
+  denied: { label: 'Negada', color: '#ef4444' },
+  released: { label: 'Liberada', color: '#22c55e' },
+  picked_up: { label: 'Coletada', color: '#15803d' },
+};
+
+/* ------------------------------------------------------------------ */
+/* Gráficos                                                            */
+/* ------------------------------------------------------------------ */
+/** Kg coletados por semana ou mês (ver `getKgSeries`). */
+export function KgOverTimeChart({ data }: { data: KgPoint[] }) {
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" vertical={false} />
+          <XAxis dataKey="label" tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <YAxis tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <Tooltip formatter={(value) => [`${value} kg`, 'Coletado']} cursor={{ fill: '#eff6ff' }} />
+          <Bar dataKey="kg" fill="#2563eb" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/** Doações do período agrupadas pelo status atual. */
+export function StatusChart({ data }: { data: { status: AdminDonation['donation_status']; count: number }[] }) {
+  const rows = data.map(d => ({ ...d, label: STATUS_META[d.status].label }));
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={rows} layout="vertical" margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" horizontal={false} />
+          <XAxis type="number" allowDecimals={false} tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="label" width={120} tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <Tooltip formatter={(value) => [value, 'Doações']} cursor={{ fill: '#f9fafb' }} />
+          <Bar dataKey="count" radius={[0, 4, 4, 0]}>
+            {rows.map(r => <Cell key={r.status} fill={STATUS_META[r.status].color} />)}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/** Ofertas aceitas x recusadas x expiradas por período, empilhadas. */
+export function IntentOutcomeChart({ data }: { data: IntentOutcomePoint[] }) {
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" vertical={false} />
+          <XAxis dataKey="label" tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <Tooltip cursor={{ fill: '#f9fafb' }} />
+          <Legend iconType="circle" wrapperStyle={{ fontSize: 12 }} />
+          <Bar dataKey="accepted" name="Aceitas" stackId="intents" fill="#22c55e" />
+          <Bar dataKey="denied" name="Recusadas" stackId="intents" fill="#ef4444" />
+          <Bar dataKey="expired" name="Expiradas" stackId="intents" fill="#9ca3af" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/** Ranking horizontal por kg (ver `getTopByKg`). */
+export function TopKgChart({ data, color }: { data: RankedKg[]; color: string }) {
+  if (data.length === 0) {
+    return <p className="h-64 flex items-center justify-center text-sm text-gray-500">Nenhuma coleta no período</p>;
+  }
+  return (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" horizontal={false} />
+          <XAxis type="number" tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="name" width={140} tick={AXIS_TICK} tickLine={false} axisLine={false} />
+          <Tooltip formatter={(value) => [`${value} kg`, 'Coletado']} cursor={{ fill: '#f9fafb' }} />
+          <Bar dataKey="kg" fill={color} radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
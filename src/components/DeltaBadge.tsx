@@ -0,0 +1,35 @@
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { getDelta } from '../lib/period';
+
+/**
+ * Variação contra o período anterior. `invert` para métricas em que subir é
+ * ruim (ex.: kg descartados).
+ */
+export function DeltaBadge({ current, previous, invert = false }: { current: number; previous: number; invert?: boolean }) {
+  const delta = getDelta(current, previous);
+
+  if (delta === null) {
+    return <span className="text-xs text-gray-500">sem base anterior</span>;
+  }
+  if (delta === 0) {
+    return (
+      <span className="inline-flex items-center text-xs text-gray-500">
+        <Minus className="h-3 w-3 mr-0.5" />
+        estável
+      </span>
+    );
+  }
+
+  const up = delta > 0;
+  const good = invert ? !up : up;
+  const Icon = up ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span
+      className={`inline-flex items-center text-xs font-medium ${good ? 'text-green-600' : 'text-red-600'}`}
+      title={`Período anterior: ${previous.toLocaleString()}`}
+    >
+      <Icon className="h-3.5 w-3.5 mr-0.5" />
+      {Math.abs(Math.round(delta * 100))}%
+    </span>
+  );
+}
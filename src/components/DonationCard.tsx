@@ -0,0 +1,347 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Package,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  Calendar,
+  Timer,
+  Heart,
+  Scale,
+  TrendingUp,
+  XCircle,
+  Users,
+} from 'lucide-react';
+import { RedirectModal } from './RedirectModal';
+import { useAuth } from '../hooks/useAuth';
+import { useNow } from '../hooks/useNow';
+import {
+  AdminDonation,
+  DonationIntent,
+  PackageInfo,
+  formatDateTime,
+  formatKm,
+  getPackageExpiryStatus,
+  getTimeRemaining,
+  getTotalKg,
+} from '../lib/donations';
+
+/* ------------------------------------------------------------------ */
+/* Card de Doação                                                      */
+/* ------------------------------------------------------------------ */
+interface DonationCardProps {
+  donation: AdminDonation;
+  highlighted?: boolean;
+}
+
+export function DonationCard({ donation, highlighted = false }: DonationCardProps) {
+  const currentTime = useNow(1000);
+  const { can } = useAuth();
+  const [showRedirectModal, setShowRedirectModal] = useState(false);
+
+  const timeInfo = getTimeRemaining(donation, currentTime);
+  const totalKg = getTotalKg(donation);
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border overflow-hidden hover:shadow-lg transition-all duration-500 ${
+      highlighted ? 'border-blue-400 ring-2 ring-blue-200' : 'border-gray-200'
+    }`}>
+      {/* Header */}
+      <div className="bg-gradient-to-r from-blue-50 to-indigo-50 px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+              <Package className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                Doação{' '}
+                <Link
+                  to={`/donations/${donation.donation_id}`}
+                  className="hover:text-blue-600 hover:underline"
+                  title="Abrir detalhes da doação"
+                >
+                  #{donation.donation_id.slice(-8)}
+                </Link>
+              </h3>
+              <div className="flex items-center space-x-4 text-sm text-gray-600">
+                <div className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-1" />
+                  Criada em {formatDateTime(donation.created_at)}
+                </div>
+                <StatusBadge status={donation.donation_status} />
+                {highlighted && (
+                  <span className="text-xs font-medium text-blue-600 animate-pulse">Atualizada agora</span>
+                )}
+              </div>
+            </div>
+          </div>
+          
+          {timeInfo && (
+            <div className={`flex flex-col items-end space-y-1 px-4 py-3 rounded-lg ${
+              timeInfo.urgent ? 'bg-red-100' : 'bg-yellow-100'
+            }`}>
+              <div className="flex items-center space-x-2">
+                <Timer className={`h-4 w-4 ${timeInfo.color}`} />
+                <span className={`text-sm font-bold ${timeInfo.color}`}>
+                  {timeInfo.text}
+                </span>
+              </div>
+              <span className="text-xs text-gray-600">
+                {donation.donation_status === 'pending' 
+                  ? 'Tempo restante para a OSC aceitar'
+                  : 'Tempo restante para OSC retirar'
+                }
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Restaurante e OSC */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Fluxo Restaurante -> OSC */}
+            <div className="flex items-center space-x-4">
+              <RestaurantInfo 
+                name={donation.restaurant_name}
+                email={donation.restaurant_email}
+                phone={donation.restaurant_phone}
+              />
+              
+              <div className="flex-shrink-0 flex flex-col items-center">
+                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center mb-1">
+                  <TrendingUp className="h-4 w-4 text-blue-600" />
+                </div>
+                {donation.distance_km !== null && donation.distance_km !== undefined && (
+                  <span className="text-xs text-gray-500">
+                    {formatKm(donation.distance_km)}
+                  </span>
+                )}
+              </div>
+              
+              <OSCInfo 
+                name={donation.osc_name}
+                email={donation.osc_email}
+                phone={donation.osc_phone}
+              />
+            </div>
+
+            {/* Timeline dos Intents */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+                <Clock className="h-4 w-4 mr-2 text-blue-500" />
+                Histórico da Doação
+              </h4>
+              <IntentTimeline intents={donation.donation_intents} />
+              
+              {/* Botão de redirecionamento para doações pendentes */}
+              {donation.donation_status === 'pending' && can('donations.manage') && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <button
+                    onClick={() => setShowRedirectModal(true)}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                  >
+                    <TrendingUp className="h-4 w-4 mr-2" />
+                    Gostaria de redirecionar essa doação?
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Pacotes */}
+          <div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="text-sm font-medium text-gray-900 flex items-center">
+                  <Scale className="h-4 w-4 mr-2 text-green-500" />
+                  Pacotes ({donation.packages.length})
+                </h4>
+                <div className="text-right">
+                  <div className="text-lg font-bold text-gray-900">{totalKg.toFixed(1)} kg</div>
+                  <div className="text-xs text-gray-500">Total</div>
+                </div>
+              </div>
+              
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {donation.packages.map((pkg) => (
+                  <PackageItem key={pkg.id} package={pkg} />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+      
+      {/* Modal de redirecionamento */}
+      {showRedirectModal && (
+        <RedirectModal 
+          isOpen={showRedirectModal}
+          onClose={() => setShowRedirectModal(false)}
+          donation={donation}
+        />
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+export const StatusBadge = ({ status }: { status: string }) => {
+  const statusMap = {
+    pending: { color: 'yellow', label: 'Aguardando Aceite' },
+    accepted: { color: 'blue', label: 'Aceita - Aguardando Coleta' },
+    released: { color: 'green', label: 'Liberada' },
+    picked_up: { color: 'green', label: 'Coletada' },
+    denied: { color: 'red', label: 'Negada' },
+  }[status] || { color: 'gray', label: status };
+
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-${statusMap.color}-100 text-${statusMap.color}-800`}>
+      {statusMap.label}
+    </span>
+  );
+};
+
+export const RestaurantInfo = ({ name, email, phone }: { name: string; email: string; phone: string | null }) => (
+  <div className="flex items-center space-x-3 bg-blue-50 rounded-lg p-4 flex-1">
+    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+      <Users className="h-5 w-5 text-blue-600" />
+    </div>
+    <div className="min-w-0 flex-1">
+      <h5 className="font-medium text-gray-900 truncate">{name}</h5>
+      <div className="text-sm text-gray-600 space-y-1">
+        <div className="flex items-center">
+          <span className="truncate">{email}</span>
+        </div>
+        {phone && (
+          <div className="flex items-center">
+            <span>{phone}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export const OSCInfo = ({ name, email, phone }: { name: string; email: string | null; phone: string }) => (
+  <div className="flex items-center space-x-3 bg-green-50 rounded-lg p-4 flex-1">
+    <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center flex-shrink-0">
+      <Heart className="h-5 w-5 text-green-600" />
+    </div>
+    <div className="min-w-0 flex-1">
+      <h5 className="font-medium text-gray-900 truncate">{name}</h5>
+      <div className="text-sm text-gray-600 space-y-1">
+        {email && (
+          <div className="flex items-center">
+            <span className="truncate">{email}</span>
+          </div>
+        )}
+        <div className="flex items-center">
+          <span>{phone}</span>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export const IntentTimeline = ({ intents }: { intents: DonationIntent[] }) => {
+  const sortedIntents = [...intents].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const getIntentIcon = (status: string) => {
+    switch (status) {
+      case 'waiting_response': return <Clock className="h-4 w-4 text-yellow-500" />;
+      case 'accepted': return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'denied': return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'expired': return <AlertCircle className="h-4 w-4 text-gray-500" />;
+      case 're_routed': return <TrendingUp className="h-4 w-4 text-blue-500" />;
+      default: return <Clock className="h-4 w-4 text-gray-500" />;
+    }
+  };
+
+  const getIntentLabel = (status: string, oscName: string) => {
+    switch (status) {
+      case 'waiting_response': return `Ainda estamos aguardando a resposta da ${oscName}`;
+      case 'accepted': return `${oscName} aceitou a doação!`;
+      case 'denied': return `${oscName} recusou a oferta de doação`;
+      case 'expired': return `Oferta para ${oscName} expirou`;
+      case 're_routed': return `Doação redirecionada para ${oscName}`;
+      default: return status;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {sortedIntents.map((intent) => (
+        <div key={intent.id} className="flex items-center space-x-3">
+          <div className="flex-shrink-0 w-8 h-8 bg-white border-2 border-gray-200 rounded-full flex items-center justify-center">
+            {getIntentIcon(intent.status)}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">
+                {getIntentLabel(intent.status, intent.osc.name)}
+              </span>
+              <span className="text-xs text-gray-500">
+                {new Date(intent.updated_at).toLocaleDateString('pt-BR', {
+                  day: '2-digit',
+                  month: '2-digit',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </span>
+            </div>
+            {intent.reason && (
+              <p className="text-xs text-gray-500 mt-0.5">Motivo: {intent.reason}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const PackageItem = ({ package: pkg }: { package: PackageInfo }) => {
+  const formatExpiryDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+    });
+  };
+
+  const expiryStatus = getPackageExpiryStatus(pkg, new Date());
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-3">
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex-1 min-w-0">
+          <h6 className="text-sm font-medium text-gray-900 truncate">{pkg.item.name}</h6>
+          <p className="text-xs text-gray-500">{pkg.item.description}</p>
+          <p className="text-xs text-gray-400 mt-1">Código: {pkg.label_code}</p>
+        </div>
+        <div className="text-right flex-shrink-0 ml-2">
+          <div className="text-sm font-bold text-gray-900">{pkg.total_kg.toFixed(1)} kg</div>
+          <div className="text-xs text-gray-500">
+            {pkg.quantity} unidades
+          </div>
+        </div>
+      </div>
+      
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          Validade: {formatExpiryDate(pkg.expires_at)}
+        </span>
+        {expiryStatus && (
+          <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${expiryStatus.color}`}>
+            <AlertCircle className="h-3 w-3 mr-1" />
+            {expiryStatus.label}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
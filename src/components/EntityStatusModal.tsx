@@ -0,0 +1,129 @@
+import { ReactNode } from 'react';
+import { AlertTriangle, Building2, Package, Power, X } from 'lucide-react';
+import { EntityKind, useEntityImpact } from '../hooks/useEntityStatus';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+interface Props {
+  entity: EntityKind;
+  target: { id: string; name: string; status: 'active' | 'inactive' | 'invite_sent' } | null;
+  onClose: () => void;
+  onConfirm: () => void;
+  isLoading: boolean;
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+/**
+ * Confirmação de ativação/desativação. Mostra quantas doações em andamento
+ * e parcerias envolvem o cadastro antes de aplicar a mudança.
+ */
+export function EntityStatusModal({ entity, target, onClose, onConfirm, isLoading }: Props) {
+  const { data: impact, isLoading: loadingImpact } = useEntityImpact(entity, target?.id ?? null);
+
+  if (!target) return null;
+
+  const deactivating = target.status !== 'inactive';
+  const label = entity === 'restaurant' ? 'restaurante' : 'OSC';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-gray-500/75" onClick={onClose} />
+
+        <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full">
+          {/* ---------- Header ---------- */}
+          <div className="flex items-center justify-between p-6 border-b">
+            <div>
+              <h3 className="text-xl font-semibold text-gray-900">
+                {deactivating ? `Desativar ${label}` : `Reativar ${label}`}
+              </h3>
+              <p className="text-sm text-gray-500">{target.name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* ---------- Impacto ---------- */}
+          <div className="p-6 space-y-4">
+            {loadingImpact ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <ImpactStat
+                  icon={<Package className="h-5 w-5 text-yellow-600" />}
+                  label="Doações em andamento"
+                  value={impact?.openDonations ?? 0}
+                />
+                <ImpactStat
+                  icon={<Building2 className="h-5 w-5 text-blue-600" />}
+                  label="Parcerias"
+                  value={impact?.partnerships ?? 0}
+                />
+              </div>
+            )}
+
+            {deactivating ? (
+              <div className="flex items-start p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3 flex-shrink-0" />
+                <p className="text-sm text-yellow-800">
+                  {entity === 'restaurant'
+                    ? 'O restaurante deixa de acessar a plataforma e não poderá criar novas doações. As doações em andamento seguem o fluxo normal.'
+                    : 'A OSC deixa de receber novas ofertas de doação. As doações em andamento precisarão ser redirecionadas ou concluídas.'}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {entity === 'restaurant'
+                  ? 'O restaurante volta a acessar a plataforma e a criar doações para as parcerias existentes.'
+                  : 'A OSC volta a receber ofertas das parcerias existentes.'}
+              </p>
+            )}
+          </div>
+
+          {/* ---------- Ações ---------- */}
+          <div className="flex justify-end p-6 space-x-3 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={isLoading}
+              className={`inline-flex items-center px-6 py-3 text-sm font-medium text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                deactivating ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+              }`}
+            >
+              <Power className="h-4 w-4 mr-2" />
+              {isLoading ? 'Salvando...' : deactivating ? 'Desativar' : 'Reativar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const ImpactStat = ({ icon, label, value }: { icon: ReactNode; label: string; value: number }) => (
+  <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+    <div className="flex items-center space-x-2 mb-1">
+      {icon}
+      <span className="text-xs text-gray-500">{label}</span>
+    </div>
+    <p className="text-2xl font-bold text-gray-900">{value}</p>
+  </div>
+);
@@ -0,0 +1,69 @@
+import { ReactNode } from 'react';
+import { Leaf, Users, Utensils } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useImpactFactors } from '../hooks/useImpactFactors';
+import { AdminDonation } from '../lib/donations';
+import { formatBeneficiaries, formatCo2e, formatMeals, formatVersions, getImpact } from '../lib/impact';
+
+/** Refeições, pessoas beneficiadas e CO₂e evitado das doações coletadas da lista. */
+export function ImpactSummary({ donations }: { donations: AdminDonation[] }) {
+  const { data: versions, isLoading } = useImpactFactors();
+  const impact = getImpact(donations, versions ?? []);
+
+  if (!isLoading && (versions ?? []).length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Nenhum fator de impacto cadastrado.{' '}
+        <Link to="/impact" className="text-blue-600 hover:text-blue-800 font-medium">Configurar</Link>
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <ImpactStat
+        icon={<Utensils className="h-6 w-6 text-orange-600" />}
+        bgColor="bg-orange-100"
+        label="Refeições servidas"
+        value={formatMeals(impact.meals)}
+      />
+      <ImpactStat
+        icon={<Users className="h-6 w-6 text-blue-600" />}
+        bgColor="bg-blue-100"
+        label="Pessoas beneficiadas"
+        value={formatBeneficiaries(impact.beneficiaries)}
+      />
+      <ImpactStat
+        icon={<Leaf className="h-6 w-6 text-green-600" />}
+        bgColor="bg-green-100"
+        label="CO₂e evitado"
+        value={formatCo2e(impact.co2eKg)}
+      />
+      <p className="md:col-span-3 text-xs text-gray-500">
+        Calculado com os fatores {formatVersions(impact.versions)} vigentes na data de cada coleta.
+      </p>
+    </div>
+  );
+}
+
+const ImpactStat = ({
+  icon,
+  bgColor,
+  label,
+  value,
+}: {
+  icon: ReactNode;
+  bgColor: string;
+  label: string;
+  value: string;
+}) => (
+  <div className="bg-white rounded-xl shadow-sm p-5 border border-gray-200 flex items-center">
+    <div className={`flex-shrink-0 w-11 h-11 ${bgColor} rounded-lg flex items-center justify-center`}>
+      {icon}
+    </div>
+    <div className="ml-4">
+      <p className="text-sm font-medium text-gray-500">{label}</p>
+      <p className="text-xl font-bold text-gray-900">{value}</p>
+    </div>
+  </div>
+);
@@ -0,0 +1,431 @@
+import { useRef, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle,
+  Download,
+  FileSpreadsheet,
+  Upload,
+  X,
+  XCircle,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { SheetRow, downloadCsv, readSpreadsheet } from '../lib/spreadsheet';
+import { CepLookupError } from '../lib/cep';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type ImportRow<T> = {
+  line: number; // linha na planilha (1 = cabeçalho)
+  raw: SheetRow;
+  data: T;
+  errors: string[];
+};
+
+type RowResult = { status: 'success' | 'error'; message?: string };
+
+type Step = 'upload' | 'validating' | 'preview' | 'importing' | 'done';
+
+export interface ImportColumn<T> {
+  label: string;
+  value: (data: T) => string | undefined;
+}
+
+interface Props<T> {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description: string;
+  /** Cabeçalhos do modelo para download */
+  templateHeaders: string[];
+  columns: ImportColumn<T>[];
+  /** Valida as linhas lidas (pode consultar o banco) */
+  prepareRows: (
+    rows: SheetRow[],
+    onProgress: (done: number, total: number) => void,
+  ) => Promise<ImportRow<T>[]>;
+  /** Cria um registro; rejeita com `{ status }` em caso de erro */
+  importRow: (data: T) => Promise<unknown>;
+  describeError: (err: unknown) => string;
+  onFinished: () => void;
+  reportName: string;
+  /** Permite simular a importação sem criar registros */
+  allowDryRun?: boolean;
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+/**
+ * Assistente de importação em lote: lê CSV/XLSX, mostra os erros de
+ * validação linha a linha e cria os registros válidos um por vez.
+ */
+export function ImportModal<T>({
+  isOpen,
+  onClose,
+  title,
+  description,
+  templateHeaders,
+  columns,
+  prepareRows,
+  importRow,
+  describeError,
+  onFinished,
+  reportName,
+  allowDryRun = false,
+}: Props<T>) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow<T>[]>([]);
+  const [results, setResults] = useState<Map<number, RowResult>>(new Map());
+  const [validation, setValidation] = useState({ done: 0, total: 0 });
+  const [dryRun, setDryRun] = useState(allowDryRun);
+  const [lastRunWasDry, setLastRunWasDry] = useState(false);
+  const cancelled = useRef(false);
+
+  if (!isOpen) return null;
+
+  const validRows = rows.filter(r => r.errors.length === 0);
+  const invalidRows = rows.filter(r => r.errors.length > 0);
+  const processed = results.size;
+  const succeeded = [...results.values()].filter(r => r.status === 'success').length;
+  const failed = processed - succeeded;
+
+  const resetState = () => {
+    setStep('upload');
+    setFileName('');
+    setRows([]);
+    setResults(new Map());
+    setValidation({ done: 0, total: 0 });
+    setDryRun(allowDryRun);
+  };
+
+  const closeModal = () => {
+    if (step === 'importing') {
+      // Interrompe após a linha atual
+      cancelled.current = true;
+      return;
+    }
+    resetState();
+    onClose();
+  };
+
+  /* ----------------------- leitura do arquivo ----------------------- */
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setStep('validating');
+
+    let sheet: SheetRow[];
+    try {
+      sheet = await readSpreadsheet(file);
+    } catch {
+      toast.error('Não foi possível ler o arquivo. Use CSV ou XLSX.');
+      resetState();
+      return;
+    }
+    if (sheet.length === 0) {
+      toast.error('A planilha está vazia');
+      resetState();
+      return;
+    }
+
+    // O arquivo foi lido; aqui só falham as consultas (cadastros e CEPs)
+    try {
+      setValidation({ done: 0, total: sheet.length });
+      setRows(await prepareRows(sheet, (done, total) => setValidation({ done, total })));
+      setStep('preview');
+    } catch (err) {
+      toast.error(
+        err instanceof CepLookupError
+          ? 'Não foi possível consultar os CEPs. Verifique a conexão e tente novamente.'
+          : 'Não foi possível verificar os cadastros existentes. Tente novamente.',
+      );
+      resetState();
+    }
+  };
+
+  /* ---------------------------- importação --------------------------- */
+  const runImport = async (simulate: boolean) => {
+    cancelled.current = false;
+    setLastRunWasDry(simulate);
+    setStep('importing');
+    setResults(new Map());
+
+    for (const row of validRows) {
+      if (cancelled.current) break;
+      let result: RowResult;
+      if (simulate) {
+        result = { status: 'success', message: 'Simulação OK' };
+      } else {
+        try {
+          await importRow(row.data);
+          result = { status: 'success' };
+        } catch (err) {
+          result = { status: 'error', message: describeError(err) };
+        }
+      }
+      setResults(prev => new Map(prev).set(row.line, result));
+    }
+
+    setStep('done');
+    if (!simulate) onFinished();
+  };
+
+  /* --------------------------- relatórios ---------------------------- */
+  const downloadTemplate = () => downloadCsv(`modelo-${reportName}.csv`, [templateHeaders]);
+
+  const downloadErrorReport = () => {
+    const failedRows = rows
+      .map(r => {
+        const result = results.get(r.line);
+        const errors = result?.status === 'error' ? [result.message ?? 'Erro'] : r.errors;
+        return { row: r, errors };
+      })
+      .filter(({ errors }) => errors.length > 0);
+
+    downloadCsv(`erros-${reportName}.csv`, [
+      ['Linha', ...columns.map(c => c.label), 'Erros'],
+      ...failedRows.map(({ row, errors }) => [
+        row.line,
+        ...columns.map(c => c.value(row.data) ?? ''),
+        errors.join(' | '),
+      ]),
+    ]);
+  };
+
+  /* ----------------------------- JSX ------------------------------- */
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-gray-500/75" onClick={closeModal} />
+
+        <div className="relative bg-white rounded-xl shadow-xl max-w-5xl w-full">
+          {/* ---------- Header ---------- */}
+          <div className="flex items-center justify-between p-6 border-b">
+            <div>
+              <h3 className="text-xl font-semibold text-gray-900">{title}</h3>
+              <p className="text-sm text-gray-500">{fileName || description}</p>
+            </div>
+            <button
+              onClick={closeModal}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* ---------- Upload ---------- */}
+            {step === 'upload' && (
+              <div className="space-y-4">
+                <label className="flex flex-col items-center justify-center py-12 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/30 transition-colors">
+                  <Upload className="h-10 w-10 text-gray-400 mb-3" />
+                  <span className="text-sm font-medium text-gray-900">Selecione um arquivo CSV ou XLSX</span>
+                  <span className="text-xs text-gray-500 mt-1">A primeira linha deve conter os cabeçalhos</span>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>Colunas: {templateHeaders.join(', ')}</span>
+                  <button
+                    onClick={downloadTemplate}
+                    className="inline-flex items-center font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Baixar modelo
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* ---------- Validando ---------- */}
+            {step === 'validating' && (
+              <div className="flex flex-col items-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-4" />
+                <p className="text-sm text-gray-600">
+                  Validando linhas...
+                  {validation.total > 0 && ` (${validation.done}/${validation.total})`}
+                </p>
+              </div>
+            )}
+
+            {/* ---------- Prévia / progresso ---------- */}
+            {(step === 'preview' || step === 'importing' || step === 'done') && (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <SummaryStat label="Linhas lidas" value={rows.length} color="text-gray-900" />
+                  <SummaryStat label="Válidas" value={validRows.length} color="text-green-600" />
+                  <SummaryStat label="Com erro" value={invalidRows.length} color="text-red-600" />
+                </div>
+
+                {step !== 'preview' && (
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>
+                        {step === 'importing'
+                          ? lastRunWasDry ? 'Simulando...' : 'Importando...'
+                          : lastRunWasDry ? 'Simulação concluída — nada foi criado' : 'Importação concluída'}
+                        {' '}({processed}/{validRows.length})
+                      </span>
+                      <span>
+                        <span className="text-green-600">
+                          {succeeded} {lastRunWasDry ? 'pronta(s)' : 'criado(s)'}
+                        </span>
+                        {failed > 0 && <span className="text-red-600"> · {failed} falha(s)</span>}
+                      </span>
+                    </div>
+                    <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-2 bg-blue-600 transition-all"
+                        style={{ width: `${validRows.length ? (processed / validRows.length) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="max-h-96 overflow-auto border border-gray-200 rounded-lg">
+                  <table className="w-full text-sm divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Linha</th>
+                        {columns.map(c => (
+                          <th key={c.label} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                            {c.label}
+                          </th>
+                        ))}
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rows.map(row => (
+                        <tr key={row.line} className={row.errors.length ? 'bg-red-50/50' : ''}>
+                          <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                          {columns.map(c => (
+                            <td key={c.label} className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                              {c.value(row.data) || <span className="text-gray-400">—</span>}
+                            </td>
+                          ))}
+                          <td className="px-3 py-2">
+                            <RowStatus errors={row.errors} result={results.get(row.line)} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* ---------- Ações ---------- */}
+          <div className="flex justify-between items-center p-6 border-t">
+            <div>
+              {(step === 'preview' || step === 'done') && (invalidRows.length > 0 || failed > 0) && (
+                <button
+                  onClick={downloadErrorReport}
+                  className="inline-flex items-center text-sm font-medium text-red-600 hover:text-red-800"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Baixar relatório de erros
+                </button>
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              {allowDryRun && step === 'preview' && (
+                <label className="inline-flex items-center text-sm text-gray-700 mr-2">
+                  <input
+                    type="checkbox"
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                  />
+                  Apenas simular
+                </label>
+              )}
+              {step === 'done' && lastRunWasDry && validRows.length > 0 && (
+                <button
+                  onClick={() => runImport(false)}
+                  className="inline-flex items-center px-6 py-3 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Importar de verdade
+                </button>
+              )}
+              {step === 'preview' && (
+                <button
+                  onClick={resetState}
+                  className="px-6 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Trocar arquivo
+                </button>
+              )}
+              {step === 'preview' ? (
+                <button
+                  onClick={() => runImport(dryRun)}
+                  disabled={validRows.length === 0}
+                  className="inline-flex items-center px-6 py-3 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  {dryRun ? 'Simular' : 'Importar'} {validRows.length} linha(s) válida(s)
+                </button>
+              ) : (
+                <button
+                  onClick={closeModal}
+                  className="px-6 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  {step === 'importing' ? 'Interromper' : step === 'done' ? 'Concluir' : 'Cancelar'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const SummaryStat = ({ label, value, color }: { label: string; value: number; color: string }) => (
+  <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className={`text-2xl font-bold ${color}`}>{value}</p>
+  </div>
+);
+
+const RowStatus = ({ errors, result }: { errors: string[]; result?: RowResult }) => {
+  if (errors.length > 0) {
+    return (
+      <div className="flex items-start text-xs text-red-700">
+        <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+        <span>{errors.join('; ')}</span>
+      </div>
+    );
+  }
+  if (result?.status === 'success') {
+    return (
+      <span className="inline-flex items-center text-xs text-green-700">
+        <CheckCircle className="h-4 w-4 mr-1" />
+        {result.message ?? 'Criado'}
+      </span>
+    );
+  }
+  if (result?.status === 'error') {
+    return (
+      <span className="inline-flex items-center text-xs text-red-700">
+        <XCircle className="h-4 w-4 mr-1" />
+        {result.message}
+      </span>
+    );
+  }
+  return <span className="text-xs text-gray-500">Pronta</span>;
+};
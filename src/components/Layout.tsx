@@ -1,17 +1,24 @@
 import { Outlet } from 'react-router-dom';
-import { LogOut, LayoutDashboard, Store, Heart, Package } from 'lucide-react';
+import { LogOut, LayoutDashboard, Store, Heart, Package, Map as MapIcon, Radar, Leaf } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useAdminRealtime } from '../hooks/useAdminRealtime';
+import { ROLE_LABELS } from '../lib/permissions';
+import { AlertCenter } from './AlertCenter';
 import { Link, useLocation } from 'react-router-dom';
 
 export function Layout() {
-  const { signOut, user } = useAuth();
+  const { signOut, user, role } = useAuth();
   const location = useLocation();
+  useAdminRealtime();
 
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Restaurantes', href: '/restaurants', icon: Store },
     { name: 'OSCs', href: '/oscs', icon: Heart },
     { name: 'Doações', href: '/donations', icon: Package },
+    { name: 'Mapa', href: '/map', icon: MapIcon },
+    { name: 'Cobertura', href: '/coverage', icon: Radar },
+    { name: 'Impacto', href: '/impact', icon: Leaf },
   ];
 
   return (
@@ -19,11 +26,14 @@ export function Layout() {
       {/* Sidebar */}
       <div className="w-64 bg-white shadow-lg border-r border-gray-200 flex flex-col">
         <div className="p-6 border-b border-gray-100">
-          <img 
-            src="https://connectingfood.com/wp-content/uploads/2023/05/logo-CF.png" 
-            alt="Connecting Food" 
-            className="h-8 w-auto mb-2"
-          />
+          <div className="flex items-start justify-between mb-2">
+            <img 
+              src="https://connectingfood.com/wp-content/uploads/2023/05/logo-CF.png" 
+              alt="Connecting Food" 
+              className="h-8 w-auto"
+            />
+            <AlertCenter />
+          </div>
           <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">
             Plataforma do Administrador
           </p>
@@ -32,7 +42,9 @@ export function Layout() {
         <nav className="mt-6 flex-1">
           <div className="px-4">
             {navigation.map((item) => {
-              const isActive = location.pathname === item.href;
+              const isActive =
+                location.pathname === item.href ||
+                location.pathname.startsWith(`${item.href}/`);
               return (
                 <Link
                   key={item.name}
@@ -75,6 +87,9 @@ export function Layout() {
               <p className="text-xs text-gray-600 truncate">
                 {user?.email}
               </p>
+              {role && (
+                <p className="text-xs text-gray-400">{ROLE_LABELS[role]}</p>
+              )}
             </div>
           </div>
           <button
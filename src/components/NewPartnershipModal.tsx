@@ -1,21 +1,36 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { X, Search, MapPin, TrendingUp, TrendingDown, Users, Building2, Heart, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { NO_PERMISSION_MESSAGE } from '../lib/permissions';
 import toast from 'react-hot-toast';
 import { FunctionsError } from '@supabase/supabase-js';
+import { OSCMatch } from '../lib/donations';
+import { FunctionErrorStatus, invokeFunction } from '../lib/functions';
+import {
+  MATCH_SORT_LABELS,
+  MatchSort,
+  OSCLoad,
+  acceptanceRate,
+  compareMatches,
+} from '../lib/matchScore';
 
-interface OSCMatch {
-  osc_id: string;
-  osc_name: string;
-  city?: string;
-  uf?: string;
-  distance_km: number;
-  accepted_30: number;
-  denied_30: number;
-  score: number;
-}
+/** Resultado da criação de uma parceria dentro de um envio em lote. */
+type CreateResult = { oscId: string; ok: boolean; message?: string; favoriteFailed?: boolean };
+
+const describeCreateError = (err: unknown) => {
+  const status = (err as FunctionErrorStatus)?.status;
+  if (status === 409) return 'Parceria já existe';
+  if (status === 503) return 'Falha de conexão';
+  return (err as { message?: string })?.message || 'Erro ao criar parceria';
+};
+
+const SORT_OPTIONS = (Object.keys(MATCH_SORT_LABELS) as MatchSort[]).map(value => ({
+  value,
+  label: MATCH_SORT_LABELS[value],
+}));
 
 interface Partnership {
   osc_id: string;
@@ -42,12 +57,15 @@ interface NewPartnershipModalProps {
 }
 
 export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartnershipModalProps) {
-  const { session } = useAuth();
+  const { session, can } = useAuth();
+  const canManage = can('partnerships.manage');
   const queryClient = useQueryClient();
   const [view, setView] = useState<'manage' | 'search'>('manage');
   const [radiusKm, setRadiusKm] = useState(5);
-  const [selectedOsc, setSelectedOsc] = useState<string>('');
-  const [isFavorite, setIsFavorite] = useState(false);
+  const [selectedOscs, setSelectedOscs] = useState<string[]>([]);
+  const [favoriteOsc, setFavoriteOsc] = useState<string>('');
+  const [results, setResults] = useState<Record<string, CreateResult>>({});
+  const [sortBy, setSortBy] = useState<MatchSort>('score');
 
   // Buscar dados do restaurante
   const { data: restaurant } = useQuery<Restaurant>({
@@ -137,86 +155,101 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
     enabled: false,
   });
 
-  // Criar múltiplas parcerias
-  const createPartnershipMutation = useMutation<any, FunctionsError, void>({
-    mutationFn: async () => {
-      if (!restaurantId || !selectedOsc) throw new Error('Restaurant ID and OSC are required');
-      
-      const { data, error } = await supabase.functions.invoke('cf_create_partnership', {
-        body: {
-          restaurant_id: restaurantId,
-          osc_id: selectedOsc,
-          is_favorite: isFavorite,
-        },
-        headers: {
-          Authorization: `Bearer ${session?.access_token}`,
-        },
-      });
-      
+  // Carga atual das candidatas (parcerias e favoritas em outros restaurantes)
+  const candidateIds = (oscMatches ?? []).map(m => m.osc_id);
+  const { data: loads } = useQuery<Record<string, OSCLoad>>({
+    queryKey: ['osc-load', candidateIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('partnerships')
+        .select('osc_id, restaurant_id, is_favorite')
+        .in('osc_id', candidateIds);
+
       if (error) throw error;
-      return data;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['partnerships', restaurantId] });
-      queryClient.invalidateQueries({ queryKey: ['restaurants'] }); // Atualiza tabela principal
-      toast.success('Parceria criada com sucesso!');
-      setView('manage');
-      setSelectedOsc('');
-      setIsFavorite(false);
-    },
-    onError: (error: FunctionsError) => {
-      toast.error(error.message || 'Erro ao criar parceria');
+      const byOsc: Record<string, OSCLoad> = {};
+      for (const p of data) {
+        if (p.restaurant_id === restaurantId) continue;
+        const load = (byOsc[p.osc_id] ??= { partners: 0, favoriteOf: 0 });
+        load.partners++;
+        if (p.is_favorite) load.favoriteOf++;
+      }
+      return byOsc;
     },
+    enabled: candidateIds.length > 0,
   });
 
-  // Alterar favorita
-  const toggleFavoriteMutation = useMutation({
-    mutationFn: async ({ oscId, isFavorite }: { oscId: string; isFavorite: boolean }) => {
-      // Primeiro, remove favorita de todas as outras
-      if (isFavorite) {
-        await supabase
-          .from('partnerships')
-          .update({ is_favorite: false })
-          .eq('restaurant_id', restaurantId);
+  const rankedMatches = useMemo(() => {
+    const ranked = (oscMatches ?? []).map(match => ({ match, load: loads?.[match.osc_id] }));
+    return ranked.sort(compareMatches(sortBy));
+  }, [oscMatches, loads, sortBy]);
+
+  // Criar múltiplas parcerias — cada OSC é uma chamada independente, e
+  // falhas parciais não desfazem as parcerias que deram certo
+  const createPartnershipMutation = useMutation<CreateResult[], Error, string[]>({
+    mutationFn: async (oscIds) => {
+      if (!restaurantId || oscIds.length === 0) throw new Error('Restaurant ID and OSC are required');
+
+      const settled = await Promise.allSettled(
+        oscIds.map(oscId =>
+          invokeFunction(
+            'cf_create_partnership',
+            { restaurant_id: restaurantId, osc_id: oscId },
+            session?.access_token,
+          ),
+        ),
+      );
+
+      const results: CreateResult[] = settled.map((r, i) => ({
+        oscId: oscIds[i],
+        ok: r.status === 'fulfilled',
+        message: r.status === 'rejected' ? describeCreateError(r.reason) : undefined,
+      }));
+
+      // A favorita vai pelo cf_set_favorite_partnership, que desmarca a
+      // anterior na mesma transação (uma favorita por restaurante)
+      const favorite = results.find(r => r.ok && r.oscId === favoriteOsc);
+      if (favorite) {
+        try {
+          await invokeFunction(
+            'cf_set_favorite_partnership',
+            { restaurant_id: restaurantId, osc_id: favorite.oscId, is_favorite: true },
+            session?.access_token,
+          );
+        } catch {
+          favorite.favoriteFailed = true;
+        }
       }
-      
-      // Depois, define a nova favorita
-      const { error } = await supabase
-        .from('partnerships')
-        .update({ is_favorite: isFavorite })
-        .eq('restaurant_id', restaurantId)
-        .eq('osc_id', oscId);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['partnerships', restaurantId] });
-      queryClient.invalidateQueries({ queryKey: ['restaurants'] }); // Atualiza tabela principal
-      toast.success('Favorita atualizada!');
-    },
-    onError: () => {
-      toast.error('Erro ao atualizar favorita');
-    },
-  });
 
-  // Mutation para remover parceria (corrigida)
-  const removePartnershipMutation = useMutation({
-    mutationFn: async (oscId: string) => {
-      const { error } = await supabase
-        .from('partnerships')
-        .delete()
-        .eq('restaurant_id', restaurantId)
-        .eq('osc_id', oscId);
-      
-      if (error) throw error;
+      return results;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['partnerships', restaurantId] });
-      queryClient.invalidateQueries({ queryKey: ['restaurants'] }); // Atualiza tabela principal
-      toast.success('Parceria removida com sucesso!');
+    onSuccess: (created) => {
+      const failed = created.filter(r => !r.ok);
+      if (created.some(r => r.favoriteFailed)) {
+        toast.error('Parceria criada, mas não foi possível marcá-la como favorita');
+      }
+      setResults(prev => ({ ...prev, ...Object.fromEntries(created.map(r => [r.oscId, r])) }));
+
+      if (failed.length < created.length) {
+        queryClient.invalidateQueries({ queryKey: ['partnerships', restaurantId] });
+        queryClient.invalidateQueries({ queryKey: ['restaurants'] }); // Atualiza tabela principal
+      }
+
+      if (failed.length === 0) {
+        toast.success(created.length === 1 ? 'Parceria criada com sucesso!' : `${created.length} parcerias criadas!`);
+        setView('manage');
+      } else if (failed.length === created.length) {
+        toast.error('Nenhuma parceria foi criada. Veja os erros na lista.');
+      } else {
+        toast.error(`${created.length - failed.length} de ${created.length} parcerias criadas. Veja os erros na lista.`);
+      }
+
+      // Mantém selecionadas só as que falharam, para tentar de novo
+      const failedIds = failed.map(r => r.oscId);
+      setSelectedOscs(failedIds);
+      setFavoriteOsc(f => (failedIds.includes(f) ? f : ''));
     },
-    onError: () => {
-      toast.error('Erro ao remover parceria');
+    onError: (error) => {
+      toast.error(error.message || 'Erro ao criar parceria');
     },
   });
 
@@ -225,27 +258,38 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
   };
 
   const handleOscSelect = (oscId: string) => {
-    setSelectedOsc(oscId === selectedOsc ? '' : oscId);
+    if (selectedOscs.includes(oscId)) {
+      setSelectedOscs(selectedOscs.filter(id => id !== oscId));
+      if (favoriteOsc === oscId) setFavoriteOsc('');
+    } else {
+      setSelectedOscs([...selectedOscs, oscId]);
+    }
   };
 
-  const handleFavoriteChange = (checked: boolean) => {
-    setIsFavorite(checked);
+  // No máximo uma favorita; clicar de novo desmarca
+  const handleFavoriteChange = (oscId: string) => {
+    setFavoriteOsc(oscId === favoriteOsc ? '' : oscId);
+  };
+
+  const clearSelection = () => {
+    setSelectedOscs([]);
+    setFavoriteOsc('');
+    setResults({});
   };
 
   const handleClose = () => {
     setView('manage');
     setRadiusKm(5);
-    setSelectedOsc('');
-    setIsFavorite(false);
+    clearSelection();
     onClose();
   };
 
   const handleSave = () => {
-    if (!selectedOsc) {
-      toast.error('Selecione uma OSC');
+    if (selectedOscs.length === 0) {
+      toast.error('Selecione ao menos uma OSC');
       return;
     }
-    createPartnershipMutation.mutate();
+    createPartnershipMutation.mutate(selectedOscs);
   };
 
   if (!isOpen) return null;
@@ -344,8 +388,18 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
                       <h4 className="font-semibold text-gray-900 text-lg">
                         OSCs encontradas ({oscMatches.filter(osc => !currentPartnerships?.some(p => p.osc_id === osc.osc_id)).length} disponíveis)
                       </h4>
-                      <div className="text-sm text-gray-500">
-                        {currentPartnerships?.length || 0} já são parceiras
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <span>{currentPartnerships?.length || 0} já são parceiras</span>
+                        <label className="flex items-center">
+                          Ordenar por
+                          <select
+                            value={sortBy}
+                            onChange={(e) => setSortBy(e.target.value as MatchSort)}
+                            className="ml-2 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                          </select>
+                        </label>
                       </div>
                     </div>
                     <div className="overflow-x-auto">
@@ -376,7 +430,7 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
                           </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
-                          {oscMatches.map((osc) => {
+                          {rankedMatches.map(({ match: osc, load }) => {
                             const isAlreadyPartner = currentPartnerships?.some(p => p.osc_id === osc.osc_id);
                             return (
                               <tr key={osc.osc_id} className={`${isAlreadyPartner ? 'bg-gray-50' : 'hover:bg-gray-50'}`}>
@@ -386,13 +440,28 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
                                       <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                                     </div>
                                   ) : (
-                                    <input
-                                      type="radio"
-                                      name="selectedOsc"
-                                      checked={selectedOsc === osc.osc_id}
-                                      onChange={() => handleOscSelect(osc.osc_id)}
-                                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                                    />
+                                    <div className="flex items-center space-x-2">
+                                      <input
+                                        type="checkbox"
+                                        checked={selectedOscs.includes(osc.osc_id)}
+                                        onChange={() => handleOscSelect(osc.osc_id)}
+                                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                      />
+                                      {selectedOscs.includes(osc.osc_id) && (
+                                        <button
+                                          type="button"
+                                          onClick={() => handleFavoriteChange(osc.osc_id)}
+                                          title={favoriteOsc === osc.osc_id ? 'Desmarcar favorita' : 'Marcar como favorita'}
+                                          className="p-1 rounded hover:bg-gray-100"
+                                        >
+                                          <Heart
+                                            className={`w-4 h-4 ${
+                                              favoriteOsc === osc.osc_id ? 'text-red-500 fill-red-500' : 'text-gray-400'
+                                            }`}
+                                          />
+                                        </button>
+                                      )}
+                                    </div>
                                   )}
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap">
@@ -427,9 +496,15 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
                                   <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                                     {osc.score.toFixed(1)}
                                   </span>
+                                  <MatchDetails match={osc} load={load} />
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap">
-                                  {isAlreadyPartner ? (
+                                  {results[osc.osc_id] && !results[osc.osc_id].ok ? (
+                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                      <div className="w-1.5 h-1.5 bg-red-500 rounded-full mr-1.5"></div>
+                                      {results[osc.osc_id].message}
+                                    </span>
+                                  ) : isAlreadyPartner ? (
                                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                                       <div className="w-1.5 h-1.5 bg-green-500 rounded-full mr-1.5"></div>
                                       Já é parceira
@@ -463,6 +538,12 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
                     >
                       Aumentar raio para {Math.min(radiusKm + 5, 50)}km
                     </button>
+                    <p className="mt-4 text-sm text-gray-500">
+                      Região sem cobertura?{' '}
+                      <Link to="/coverage" onClick={onClose} className="text-blue-600 hover:text-blue-800 font-medium">
+                        Ver relatório de cobertura
+                      </Link>
+                    </p>
                   </div>
                 ) : null}
               </div>
@@ -470,42 +551,36 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
           </div>
 
           {/* Footer */}
-          {selectedOsc && (
+          {selectedOscs.length > 0 && (
             <div className="border-t border-gray-200 px-6 py-4 bg-gray-50">
               <div className="flex justify-between items-center">
-                <div className="space-y-2">
+                <div className="space-y-1">
                   <p className="text-sm text-gray-600">
-                    OSC selecionada: <span className="font-medium">{oscMatches?.find(o => o.osc_id === selectedOsc)?.osc_name}</span>
+                    <span className="font-medium">{selectedOscs.length}</span> OSC(s) selecionada(s)
+                  </p>
+                  <p className="text-sm text-gray-500 flex items-center">
+                    <Heart className="w-3.5 h-3.5 mr-1 text-red-500" />
+                    {favoriteOsc
+                      ? <>Favorita: <span className="ml-1 font-medium">{oscMatches?.find(o => o.osc_id === favoriteOsc)?.osc_name}</span></>
+                      : 'Nenhuma favorita — clique no coração de uma OSC selecionada para marcar'}
                   </p>
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      id="favorite"
-                      checked={isFavorite}
-                      onChange={(e) => handleFavoriteChange(e.target.checked)}
-                      className="h-4 w-4 text-yellow-600 focus:ring-yellow-500 border-gray-300 rounded"
-                    />
-                    <label htmlFor="favorite" className="ml-2 text-sm text-gray-700">
-                      Marcar como favorita
-                    </label>
-                  </div>
                 </div>
                 <div className="flex space-x-3">
                   <button
-                    onClick={() => {
-                      setSelectedOsc('');
-                      setIsFavorite(false);
-                    }}
+                    onClick={clearSelection}
                     className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                   >
                     Cancelar
                   </button>
                   <button
                     onClick={handleSave}
-                    disabled={createPartnershipMutation.isPending || !selectedOsc}
+                    disabled={createPartnershipMutation.isPending || !canManage}
+                    title={canManage ? undefined : NO_PERMISSION_MESSAGE}
                     className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
-                    {createPartnershipMutation.isPending ? 'Criando...' : 'Criar Parceria'}
+                    {createPartnershipMutation.isPending
+                      ? 'Criando...'
+                      : selectedOscs.length === 1 ? 'Criar Parceria' : `Criar ${selectedOscs.length} Parcerias`}
                   </button>
                 </div>
               </div>
@@ -515,4 +590,28 @@ export function NewPartnershipModal({ isOpen, onClose, restaurantId }: NewPartne
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+// Só os dados brutos que o admin pode comparar; os pesos ficam no servidor
+const MatchDetails = ({ match, load }: { match: OSCMatch; load?: OSCLoad }) => {
+  const rate = acceptanceRate(match);
+  const details: [string, string][] = [
+    ['Taxa de aceite', rate === null ? 'sem histórico' : `${Math.round(rate * 100)}%`],
+    ['Parcerias', String(load?.partners ?? 0)],
+    ['Favorita de', `${load?.favoriteOf ?? 0} restaurante(s)`],
+  ];
+
+  return (
+    <dl className="mt-2 space-y-0.5 text-xs text-gray-500">
+      {details.map(([label, value]) => (
+        <div key={label} className="flex justify-between space-x-3">
+          <dt>{label}</dt>
+          <dd className="text-gray-700">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
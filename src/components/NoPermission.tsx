@@ -0,0 +1,23 @@
+import { ShieldOff } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { NO_PERMISSION_MESSAGE, ROLE_LABELS } from '../lib/permissions';
+
+/** Tela exibida no lugar de uma página que o papel atual não pode acessar. */
+export function NoPermission() {
+  const { role } = useAuth();
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center p-6">
+      <div className="text-center max-w-sm">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <ShieldOff className="w-8 h-8 text-gray-400" />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">{NO_PERMISSION_MESSAGE}</h3>
+        <p className="text-gray-500">
+          Seu papel atual é <span className="font-medium">{role ? ROLE_LABELS[role] : '—'}</span>.
+          Fale com um administrador se precisar de acesso.
+        </p>
+      </div>
+    </div>
+  );
+}
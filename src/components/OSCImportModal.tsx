@@ -0,0 +1,148 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../hooks/useAuth';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { invokeFunction } from '../lib/functions';
+import { createCepResolver } from '../lib/cep';
+import { SheetRow, pickColumn } from '../lib/spreadsheet';
+import {
+  formatCnpj,
+  isValidCep,
+  isValidCnpj,
+  isValidEmail,
+  isValidPhone,
+  onlyDigits,
+} from '../lib/validation';
+import { ImportColumn, ImportModal, ImportRow } from './ImportModal';
+import { OSCFormData } from './OSCModal';
+
+/* ------------------------------------------------------------------ */
+/* Mapeamento de colunas                                               */
+/* ------------------------------------------------------------------ */
+const TEMPLATE_HEADERS = ['name', 'cnpj', 'email', 'responsible_name', 'phone', 'cep', 'number'];
+
+const ALIASES: Record<keyof Omit<OSCFormData, 'street' | 'city' | 'uf'>, string[]> = {
+  name: ['name', 'nome', 'osc', 'organizacao'],
+  cnpj: ['cnpj'],
+  email: ['email'],
+  responsible_name: ['responsible_name', 'responsavel', 'nomedoresponsavel'],
+  phone: ['phone', 'telefone', 'celular'],
+  cep: ['cep'],
+  number: ['number', 'numero', 'nro'],
+};
+
+const COLUMNS: ImportColumn<OSCFormData>[] = [
+  { label: 'Nome', value: d => d.name },
+  { label: 'CNPJ', value: d => d.cnpj },
+  { label: 'Email', value: d => d.email },
+  { label: 'Responsável', value: d => d.responsible_name },
+  { label: 'Telefone', value: d => d.phone },
+  { label: 'CEP', value: d => d.cep },
+  { label: 'Endereço', value: d => d.city && `${d.street}, ${d.number} — ${d.city}/${d.uf}` },
+];
+
+/* ------------------------------------------------------------------ */
+/* Validação                                                           */
+/* ------------------------------------------------------------------ */
+const toPayload = (raw: SheetRow): OSCFormData => ({
+  name: pickColumn(raw, ALIASES.name),
+  cnpj: formatCnpj(pickColumn(raw, ALIASES.cnpj)),
+  email: pickColumn(raw, ALIASES.email).toLowerCase(),
+  responsible_name: pickColumn(raw, ALIASES.responsible_name),
+  phone: pickColumn(raw, ALIASES.phone),
+  cep: onlyDigits(pickColumn(raw, ALIASES.cep)),
+  number: pickColumn(raw, ALIASES.number),
+});
+
+const fetchExistingOSCs = () =>
+  fetchAllRows<{ cnpj: string | null; email: string | null }>((from, to) =>
+    supabase.from('osc').select('id, cnpj, email').order('id').range(from, to),
+  );
+
+/**
+ * Valida as linhas, marca duplicidades (na planilha e na tabela `osc`) e
+ * resolve o endereço de cada CEP via `util_cep_info`, uma vez por CEP.
+ */
+const prepareRows = async (
+  sheet: SheetRow[],
+  onProgress: (done: number, total: number) => void,
+): Promise<ImportRow<OSCFormData>[]> => {
+  const existing = await fetchExistingOSCs();
+  const taken = {
+    cnpj: new Set(existing.filter(o => o.cnpj).map(o => onlyDigits(o.cnpj!))),
+    email: new Set(existing.filter(o => o.email).map(o => o.email!.toLowerCase())),
+  };
+  const seen = { cnpj: new Map<string, number>(), email: new Map<string, number>() };
+  const resolveCep = createCepResolver();
+
+  const rows: ImportRow<OSCFormData>[] = [];
+  for (const [i, raw] of sheet.entries()) {
+    const line = i + 2;
+    const data = toPayload(raw);
+    const errors: string[] = [];
+
+    if (!data.name) errors.push('Nome é obrigatório');
+    if (!data.responsible_name) errors.push('Responsável é obrigatório');
+    if (!data.cnpj) errors.push('CNPJ é obrigatório');
+    else if (!isValidCnpj(data.cnpj)) errors.push('CNPJ inválido');
+    if (!data.email) errors.push('Email é obrigatório');
+    else if (!isValidEmail(data.email)) errors.push('Email inválido');
+    if (!data.phone) errors.push('Telefone é obrigatório');
+    else if (!isValidPhone(data.phone)) errors.push('Telefone inválido');
+    if (!data.number) errors.push('Número é obrigatório');
+
+    const checks: [keyof typeof taken, string | undefined, string][] = [
+      ['cnpj', data.cnpj && onlyDigits(data.cnpj), 'CNPJ'],
+      ['email', data.email, 'Email'],
+    ];
+    for (const [field, value, label] of checks) {
+      if (!value) continue;
+      if (taken[field].has(value)) errors.push(`${label} já cadastrado`);
+      const firstLine = seen[field].get(value);
+      if (firstLine) errors.push(`${label} repetido (linha ${firstLine})`);
+      else seen[field].set(value, line);
+    }
+
+    if (!isValidCep(data.cep)) {
+      errors.push('CEP deve ter 8 dígitos');
+    } else {
+      const address = await resolveCep(data.cep);
+      if (address) Object.assign(data, address);
+      else errors.push('CEP não encontrado');
+    }
+
+    rows.push({ line, raw, data, errors });
+    onProgress(i + 1, sheet.length);
+  }
+
+  return rows;
+};
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+export function OSCImportModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { session } = useAuth();
+  const qc = useQueryClient();
+
+  return (
+    <ImportModal<OSCFormData>
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Importar OSCs"
+      description="Cadastre organizações sociais em lote a partir de uma planilha"
+      templateHeaders={TEMPLATE_HEADERS}
+      columns={COLUMNS}
+      prepareRows={prepareRows}
+      importRow={(data) => invokeFunction('cf_create_osc', data, session?.access_token)}
+      describeError={(err) => {
+        const status = (err as { status?: number })?.status;
+        if (status === 409) return 'CNPJ ou Email já cadastrado';
+        if (status === 503) return 'Falha de conexão';
+        return 'Não foi possível criar a OSC';
+      }}
+      onFinished={() => qc.invalidateQueries({ queryKey: ['oscs'] })}
+      reportName="oscs"
+      allowDryRun
+    />
+  );
+}
@@ -8,6 +8,7 @@ import {
 import { X, User, MapPin, Search, Building2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { OSC } from '../lib/oscs';
 
 /* ------------------------------------------------------------------ */
 /* Tipos                                                               */
@@ -36,8 +37,15 @@ interface Props {
   onClose: () => void;
   onSubmit: (data: OSCFormData) => Promise<any>;
   isLoading: boolean;
+  /** Quando presente, o modal abre em modo de edição */
+  osc?: OSC | null;
 }
 
+/* ------------------------------------------------------------------ */
+/* Helpers                                                             */
+/* ------------------------------------------------------------------ */
+const formatCep = (v: string) => v.replace(/\D/g, '').slice(0, 8);
+
 /* ------------------------------------------------------------------ */
 /* Componente                                                          */
 /* ------------------------------------------------------------------ */
@@ -46,7 +54,10 @@ export function OSCModal({
   onClose,
   onSubmit,
   isLoading,
+  osc,
 }: Props) {
+  const isEditing = !!osc;
+
   /* ----------------------------- estado ----------------------------- */
   const [cepLoading, setCepLoading] = useState(false);
   const [emailError, setEmailError] = useState('');
@@ -70,7 +81,7 @@ export function OSCModal({
 
   /* -------------------- autofill: garante 1º clique ----------------- */
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || isEditing) return;
     const t = setTimeout(() => {
       const domEmail = (
         document.querySelector(
@@ -83,7 +94,26 @@ export function OSCModal({
       }
     }, 200);
     return () => clearTimeout(t);
-  }, [isOpen, setValue, trigger]);
+  }, [isOpen, isEditing, setValue, trigger]);
+
+  /* ------------- edição: preenche com os dados atuais --------------- */
+  useEffect(() => {
+    if (!isOpen || !osc) return;
+    reset({
+      name: osc.name,
+      cnpj: osc.cnpj ?? '',
+      email: osc.email ?? '',
+      responsible_name: osc.responsible_name ?? '',
+      phone: osc.phone ?? '',
+      cep: formatCep(osc.cep ?? ''),
+      number: osc.number ?? '',
+      street: osc.street ?? '',
+      city: osc.city ?? '',
+      uf: osc.uf ?? '',
+    });
+    // Endereço já validado no cadastro; só exige nova busca se o CEP mudar
+    setCepSearched(!!osc.cep);
+  }, [isOpen, osc, reset]);
 
   /* -------- NEW: reseta tudo quando modal é fechado ----------------- */
   useEffect(() => {
@@ -96,8 +126,6 @@ export function OSCModal({
   }, [isOpen, reset]);
 
   /* ------------------------ Helpers --------------------------------- */
-  const formatCep = (v: string) => v.replace(/\D/g, '').slice(0, 8);
-
   const closeModal = () => {
     reset();
     setEmailError('');
@@ -153,7 +181,9 @@ export function OSCModal({
         setEmailError(msg);
         setError('email', { type: 'manual', message: msg });
       } else {
-        const message = 'Não foi possível criar a OSC, tente novamente mais tarde.';
+        const message = isEditing
+          ? 'Não foi possível salvar a OSC, tente novamente mais tarde.'
+          : 'Não foi possível criar a OSC, tente novamente mais tarde.';
         toast.error(message, { style: { zIndex: 9999 } });
       }
     }
@@ -179,7 +209,7 @@ export function OSCModal({
 
         <div className="relative bg-white rounded-xl shadow-xl max-w-4xl w-full">
           {/* ---------- Header ---------- */}
-          <Header onClose={closeModal} />
+          <Header onClose={closeModal} isEditing={isEditing} />
 
           {/* ---------- Form ---------- */}
           <div className="p-6">
@@ -209,7 +239,9 @@ export function OSCModal({
                   disabled={isLoading || !cepSearched}
                   className="px-6 py-3 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  {isLoading ? 'Criando...' : 'Criar OSC'}
+                  {isEditing
+                    ? isLoading ? 'Salvando...' : 'Salvar Alterações'
+                    : isLoading ? 'Criando...' : 'Criar OSC'}
                 </button>
               </div>
             </form>
@@ -223,14 +255,16 @@ export function OSCModal({
 /* ------------------------------------------------------------------ */
 /* Header                                                              */
 /* ------------------------------------------------------------------ */
-const Header = ({ onClose }: { onClose: () => void }) => (
+const Header = ({ onClose, isEditing }: { onClose: () => void; isEditing: boolean }) => (
   <div className="flex items-center justify-between p-6 border-b">
     <div>
       <h3 className="text-xl font-semibold text-gray-900">
-        Nova OSC
+        {isEditing ? 'Editar OSC' : 'Nova OSC'}
       </h3>
       <p className="text-sm text-gray-500">
-        Preencha as informações para cadastrar uma nova organização social
+        {isEditing
+          ? 'Atualize as informações da organização social'
+          : 'Preencha as informações para cadastrar uma nova organização social'}
       </p>
     </div>
     <button
@@ -0,0 +1,51 @@
+import { CalendarRange } from 'lucide-react';
+import { usePeriod } from '../hooks/usePeriod';
+import { PERIOD_PRESETS, formatRange } from '../lib/period';
+
+/** Seletor do período global (ver `PeriodProvider`). */
+export function PeriodSelector() {
+  const { preset, range, previous, setPreset, setCustomRange } = usePeriod();
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <CalendarRange className="h-4 w-4 text-gray-400" />
+        {PERIOD_PRESETS.map(p => (
+          <button
+            key={p.value}
+            onClick={() => setPreset(p.value)}
+            className={`px-3 py-1.5 rounded-lg font-medium transition-colors ${
+              preset === p.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {p.label}
+          </button>
+        ))}
+        {preset === 'custom' && (
+          <>
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => e.target.value && setCustomRange({ ...range, from: e.target.value })}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-gray-700"
+            />
+            <span className="text-gray-400">até</span>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => e.target.value && setCustomRange({ ...range, to: e.target.value })}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-gray-700"
+            />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {formatRange(range)} · comparado a {formatRange(previous)}
+      </p>
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 import { ReactNode } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { Permission } from '../lib/permissions';
+import { NoPermission } from './NoPermission';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  permission?: Permission;
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, loading, isCfUser } = useAuth();
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, loading, isCfUser, role, can } = useAuth();
 
   if (loading) {
     return (
@@ -36,5 +39,17 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/login" replace />;
   }
 
+  /* ④ Rota exige permissão: espera o papel e bloqueia quem não tem */
+  if (permission) {
+    if (role === null) {
+      return (
+        <div className="min-h-[60vh] flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+    if (!can(permission)) return <NoPermission />;
+  }
+
   return <>{children}</>;
 }
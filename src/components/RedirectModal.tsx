@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, MapPin, Search, TrendingUp, X, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import toast from 'react-hot-toast';
+import { FunctionsError } from '@supabase/supabase-js';
+import { AdminDonation, OSCMatch, formatKm } from '../lib/donations';
+
+const REDIRECT_REASONS = [
+  'OSC não respondeu a tempo',
+  'OSC sem capacidade de coleta',
+  'OSC solicitou o redirecionamento',
+  'Restaurante solicitou outra OSC',
+];
+
+export const RedirectModal = ({
+  isOpen,
+  onClose,
+  donation,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  donation: AdminDonation;
+}) => {
+  const { session } = useAuth();
+  const queryClient = useQueryClient();
+  const [radiusKm, setRadiusKm] = useState(10);
+  const [selectedOsc, setSelectedOsc] = useState('');
+  const [reason, setReason] = useState('');
+
+  // OSCs que já receberam oferta desta doação não podem ser escolhidas de novo
+  const offeredOscIds = new Set([
+    donation.osc_id,
+    ...donation.donation_intents.map(i => i.osc.id),
+  ]);
+
+  // Candidatas ranqueadas pelo mesmo critério da criação de parcerias
+  const { data: candidates, isLoading: loadingCandidates } = useQuery<OSCMatch[], FunctionsError>({
+    queryKey: ['osc-matches', donation.restaurant_id, radiusKm],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<OSCMatch[]>(
+        'cf_match_oscs',
+        {
+          body: { restaurant_id: donation.restaurant_id, radius_km: radiusKm },
+          headers: { Authorization: `Bearer ${session?.access_token}` },
+        }
+      );
+
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: isOpen,
+  });
+
+  const redirectMutation = useMutation<unknown, FunctionsError, void>({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('cf_redirect_donation', {
+        body: {
+          donation_id: donation.donation_id,
+          osc_id: selectedOsc,
+          reason: reason.trim(),
+        },
+        headers: { Authorization: `Bearer ${session?.access_token}` },
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'ongoing-donations'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'donation', donation.donation_id] });
+      toast.success('Doação redirecionada com sucesso!');
+      onClose();
+    },
+    onError: (error: FunctionsError) => {
+      toast.error(error.message || 'Erro ao redirecionar doação');
+    },
+  });
+
+  const handleSave = () => {
+    if (!selectedOsc) {
+      toast.error('Selecione uma OSC');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Informe o motivo do redirecionamento');
+      return;
+    }
+    redirectMutation.mutate();
+  };
+
+  if (!isOpen) return null;
+
+  const availableCount = candidates?.filter(c => !offeredOscIds.has(c.osc_id)).length ?? 0;
+  const selectedName = candidates?.find(c => c.osc_id === selectedOsc)?.osc_name;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-gray-500/75" onClick={onClose} />
+
+        <div className="relative bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 rounded-t-xl">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                  <TrendingUp className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-white">Redirecionar Doação</h3>
+                  <p className="text-blue-100 text-sm">
+                    #{donation.donation_id.slice(-8)} • {donation.restaurant_name}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white/80 hover:text-white p-2 hover:bg-white/10 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto space-y-6">
+            {/* Raio de busca */}
+            <div className="flex items-end justify-between">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Raio de busca (km)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={radiusKm}
+                  onChange={(e) => setRadiusKm(Number(e.target.value))}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              {candidates && (
+                <p className="text-sm text-gray-500">
+                  {availableCount} OSC(s) disponível(is) para redirecionamento
+                </p>
+              )}
+            </div>
+
+            {/* Candidatas */}
+            {loadingCandidates ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+              </div>
+            ) : candidates && candidates.length > 0 ? (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['', 'OSC', 'Distância', 'Aceites 30d', 'Negações 30d', 'Score'].map(h => (
+                        <th
+                          key={h}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {candidates.map((osc) => {
+                      const alreadyOffered = offeredOscIds.has(osc.osc_id);
+                      return (
+                        <tr
+                          key={osc.osc_id}
+                          onClick={() => !alreadyOffered && setSelectedOsc(osc.osc_id)}
+                          className={alreadyOffered ? 'bg-gray-50' : 'hover:bg-blue-50/50 cursor-pointer'}
+                        >
+                          <td className="px-4 py-3 text-center">
+                            {alreadyOffered ? (
+                              <span className="text-xs text-gray-400">Já ofertada</span>
+                            ) : (
+                              <input
+                                type="radio"
+                                name="redirectOsc"
+                                checked={selectedOsc === osc.osc_id}
+                                onChange={() => setSelectedOsc(osc.osc_id)}
+                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                              />
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className={`text-sm font-medium ${alreadyOffered ? 'text-gray-400' : 'text-gray-900'}`}>
+                              {osc.osc_name}
+                            </div>
+                            {osc.city && osc.uf && (
+                              <div className="text-xs text-gray-500 flex items-center">
+                                <MapPin className="w-3 h-3 mr-1" />
+                                {osc.city}, {osc.uf}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                            {formatKm(osc.distance_km)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            <div className="flex items-center">
+                              <CheckCircle className="w-4 h-4 text-green-500 mr-1" />
+                              {osc.accepted_30}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            <div className="flex items-center">
+                              <XCircle className="w-4 h-4 text-red-500 mr-1" />
+                              {osc.denied_30}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              {osc.score.toFixed(1)}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-10">
+                <div className="w-14 h-14 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                  <Search className="w-7 h-7 text-gray-400" />
+                </div>
+                <h4 className="text-base font-medium text-gray-900 mb-1">Nenhuma OSC encontrada</h4>
+                <p className="text-sm text-gray-500 mb-4">
+                  Não encontramos OSCs neste raio. Tente aumentar a distância de busca.
+                </p>
+                <button
+                  onClick={() => setRadiusKm(Math.min(radiusKm + 5, 50))}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                >
+                  Aumentar raio para {Math.min(radiusKm + 5, 50)}km
+                </button>
+              </div>
+            )}
+
+            {/* Motivo */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Motivo do redirecionamento
+              </label>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {REDIRECT_REASONS.map((r) => (
+                  <button
+                    key={r}
+                    type="button"
+                    onClick={() => setReason(r)}
+                    className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+                      reason === r
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {r}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Descreva por que a doação está sendo redirecionada..."
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {selectedName ? (
+                <>Nova OSC: <span className="font-medium">{selectedName}</span></>
+              ) : (
+                'Selecione a OSC que receberá a doação'
+              )}
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={redirectMutation.isPending || !selectedOsc || !reason.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {redirectMutation.isPending ? 'Redirecionando...' : 'Redirecionar Doação'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { AlertTriangle, Clock, Heart, Package, Trash2, X } from 'lucide-react';
+import { usePartnershipImpact } from '../hooks/usePartnershipActions';
+import { Partnership, RestaurantWithPartners } from '../lib/restaurants';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type RemovalTarget = {
+  restaurant: Pick<RestaurantWithPartners, 'id' | 'name' | 'partnerships'>;
+  partnership: Partnership;
+};
+
+interface Props {
+  target: RemovalTarget | null;
+  onClose: () => void;
+  onConfirm: (options: { force: boolean; replacementOscId: string | null }) => void;
+  isLoading: boolean;
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+/**
+ * Confirmação de remoção de parceria. Mostra doações e ofertas ativas entre
+ * o par (exigindo confirmação explícita se houver) e, quando a parceria é a
+ * favorita, pede a nova favorita antes de remover.
+ */
+export function RemovePartnershipModal({ target, onClose, onConfirm, isLoading }: Props) {
+  const { data: impact, isLoading: loadingImpact, isError: impactFailed } = usePartnershipImpact(
+    target?.restaurant.id ?? null,
+    target?.partnership.osc.id ?? null,
+  );
+  const [force, setForce] = useState(false);
+  const [replacementOscId, setReplacementOscId] = useState<string | null>(null);
+
+  // Cada abertura começa do zero
+  useEffect(() => {
+    setForce(false);
+    setReplacementOscId(null);
+  }, [target]);
+
+  if (!target) return null;
+
+  const { restaurant, partnership } = target;
+  const others = (restaurant.partnerships ?? []).filter(p => p.osc.id !== partnership.osc.id);
+  const hasActivity = !!impact && impact.activeDonations + impact.waitingIntents > 0;
+  // Sem saber se há doações em andamento, trata como se houvesse
+  const needsForce = hasActivity || impactFailed;
+  const needsReplacement = partnership.is_favorite && others.length > 0;
+  const canConfirm =
+    !loadingImpact && (!needsForce || force) && (!needsReplacement || !!replacementOscId);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-gray-500/75" onClick={onClose} />
+
+        <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full">
+          {/* ---------- Header ---------- */}
+          <div className="flex items-center justify-between p-6 border-b">
+            <div>
+              <h3 className="text-xl font-semibold text-gray-900">Remover parceria</h3>
+              <p className="text-sm text-gray-500">
+                {restaurant.name} → {partnership.osc.name}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* ---------- Impacto ---------- */}
+          <div className="p-6 space-y-4">
+            {loadingImpact ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+              </div>
+            ) : impactFailed ? null : (
+              <div className="grid grid-cols-2 gap-4">
+                <ImpactStat
+                  icon={<Package className="h-5 w-5 text-yellow-600" />}
+                  label="Doações pendentes/aceitas"
+                  value={impact?.activeDonations ?? 0}
+                />
+                <ImpactStat
+                  icon={<Clock className="h-5 w-5 text-blue-600" />}
+                  label="Ofertas aguardando resposta"
+                  value={impact?.waitingIntents ?? 0}
+                />
+              </div>
+            )}
+
+            {needsForce && (
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
+                <div className="flex items-start">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3 flex-shrink-0" />
+                  <p className="text-sm text-yellow-800">
+                    {impactFailed
+                      ? 'Não foi possível verificar se há doações em andamento entre este restaurante e a OSC. '
+                        + 'Se houver, elas precisarão ser redirecionadas ou concluídas manualmente.'
+                      : 'Há doações em andamento entre este restaurante e a OSC. Removendo agora, elas '
+                        + 'precisarão ser redirecionadas ou concluídas manualmente.'}
+                  </p>
+                </div>
+                <label className="flex items-center text-sm font-medium text-yellow-900">
+                  <input
+                    type="checkbox"
+                    checked={force}
+                    onChange={(e) => setForce(e.target.checked)}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded mr-2"
+                  />
+                  Remover mesmo assim
+                </label>
+              </div>
+            )}
+
+            {partnership.is_favorite && (
+              <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
+                <p className="text-sm text-red-800 flex items-center mb-2">
+                  <Heart className="h-4 w-4 mr-2 fill-current" />
+                  Esta é a OSC favorita do restaurante.
+                </p>
+                {needsReplacement ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-700">Escolha a nova favorita:</p>
+                    {others.map(p => (
+                      <label key={p.osc.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          name="replacementFavorite"
+                          checked={replacementOscId === p.osc.id}
+                          onChange={() => setReplacementOscId(p.osc.id)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2"
+                        />
+                        {p.osc.name}
+                        <span className="ml-2 text-xs text-gray-500">{p.distance_km.toFixed(1)} km</span>
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-700">
+                    É a única parceria — o restaurante ficará sem OSC favorita.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* ---------- Ações ---------- */}
+          <div className="flex justify-end p-6 space-x-3 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm({ force: needsForce && force, replacementOscId })}
+              disabled={isLoading || !canConfirm}
+              className="inline-flex items-center px-6 py-3 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {isLoading ? 'Removendo...' : 'Remover'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const ImpactStat = ({ icon, label, value }: { icon: ReactNode; label: string; value: number }) => (
+  <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+    <div className="flex items-center space-x-2 mb-1">
+      {icon}
+      <span className="text-xs text-gray-500">{label}</span>
+    </div>
+    <p className="text-2xl font-bold text-gray-900">{value}</p>
+  </div>
+);
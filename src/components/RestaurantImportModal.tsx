@@ -0,0 +1,152 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../hooks/useAuth';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { invokeFunction } from '../lib/functions';
+import { createCepResolver } from '../lib/cep';
+import { SheetRow, pickColumn } from '../lib/spreadsheet';
+import {
+  formatCnpj,
+  isValidCep,
+  isValidCnpj,
+  isValidEmail,
+  isValidPhone,
+  onlyDigits,
+} from '../lib/validation';
+import { ImportColumn, ImportModal, ImportRow } from './ImportModal';
+import { RestaurantFormData } from './RestaurantModal';
+
+/* ------------------------------------------------------------------ */
+/* Mapeamento de colunas                                               */
+/* ------------------------------------------------------------------ */
+const TEMPLATE_HEADERS = ['name', 'emailOwner', 'cnpj', 'code', 'cep', 'number', 'phone'];
+
+const ALIASES: Record<keyof Omit<RestaurantFormData, 'street' | 'city' | 'uf'>, string[]> = {
+  name: ['name', 'nome', 'restaurante'],
+  emailOwner: ['emailOwner', 'email', 'emailproprietario', 'emaildoproprietario'],
+  cnpj: ['cnpj'],
+  code: ['code', 'codigo'],
+  cep: ['cep'],
+  number: ['number', 'numero', 'nro'],
+  phone: ['phone', 'telefone', 'celular'],
+};
+
+const COLUMNS: ImportColumn<RestaurantFormData>[] = [
+  { label: 'Nome', value: d => d.name },
+  { label: 'Email', value: d => d.emailOwner },
+  { label: 'CNPJ', value: d => d.cnpj },
+  { label: 'Código', value: d => d.code },
+  { label: 'CEP', value: d => d.cep },
+  { label: 'Endereço', value: d => d.city && `${d.street}, ${d.number} — ${d.city}/${d.uf}` },
+  { label: 'Telefone', value: d => d.phone },
+];
+
+/* ------------------------------------------------------------------ */
+/* Validação                                                           */
+/* ------------------------------------------------------------------ */
+const toPayload = (raw: SheetRow): RestaurantFormData => {
+  const cnpj = pickColumn(raw, ALIASES.cnpj);
+  return {
+    name: pickColumn(raw, ALIASES.name),
+    emailOwner: pickColumn(raw, ALIASES.emailOwner).toLowerCase(),
+    cnpj: cnpj ? formatCnpj(cnpj) : undefined,
+    code: pickColumn(raw, ALIASES.code) || undefined,
+    cep: onlyDigits(pickColumn(raw, ALIASES.cep)),
+    number: pickColumn(raw, ALIASES.number),
+    phone: pickColumn(raw, ALIASES.phone),
+  };
+};
+
+// Direto da tabela: a lista em cache da página pode estar desatualizada
+const fetchExistingRestaurants = () =>
+  fetchAllRows<{ email: string | null; cnpj: string | null; code: string | null }>((from, to) =>
+    supabase.from('restaurants').select('id, email, cnpj, code').order('id').range(from, to),
+  );
+
+/**
+ * Valida cada linha, marca duplicidades de email/CNPJ/código (na planilha e
+ * contra os restaurantes já cadastrados) e resolve o endereço de cada CEP via
+ * `util_cep_info`, uma vez por CEP.
+ */
+const prepareRows = async (
+  sheet: SheetRow[],
+  onProgress: (done: number, total: number) => void,
+): Promise<ImportRow<RestaurantFormData>[]> => {
+  const existing = await fetchExistingRestaurants();
+  const taken = {
+    email: new Set(existing.filter(r => r.email).map(r => r.email!.toLowerCase())),
+    cnpj: new Set(existing.filter(r => r.cnpj).map(r => onlyDigits(r.cnpj!))),
+    code: new Set(existing.filter(r => r.code).map(r => r.code!.toLowerCase())),
+  };
+  const seen = { email: new Map<string, number>(), cnpj: new Map<string, number>(), code: new Map<string, number>() };
+  const resolveCep = createCepResolver();
+
+  const rows: ImportRow<RestaurantFormData>[] = [];
+  for (const [i, raw] of sheet.entries()) {
+    const line = i + 2;
+    const data = toPayload(raw);
+    const errors: string[] = [];
+
+    if (!data.name) errors.push('Nome é obrigatório');
+    if (!data.emailOwner) errors.push('Email é obrigatório');
+    else if (!isValidEmail(data.emailOwner)) errors.push('Email inválido');
+    if (data.cnpj && !isValidCnpj(data.cnpj)) errors.push('CNPJ inválido');
+    if (!data.number) errors.push('Número é obrigatório');
+    if (!data.phone) errors.push('Telefone é obrigatório');
+    else if (!isValidPhone(data.phone)) errors.push('Telefone inválido');
+
+    const checks: [keyof typeof taken, string | undefined, string][] = [
+      ['email', data.emailOwner, 'Email'],
+      ['cnpj', data.cnpj && onlyDigits(data.cnpj), 'CNPJ'],
+      ['code', data.code?.toLowerCase(), 'Código'],
+    ];
+    for (const [field, value, label] of checks) {
+      if (!value) continue;
+      if (taken[field].has(value)) errors.push(`${label} já cadastrado`);
+      const firstLine = seen[field].get(value);
+      if (firstLine) errors.push(`${label} repetido (linha ${firstLine})`);
+      else seen[field].set(value, line);
+    }
+
+    if (!isValidCep(data.cep)) {
+      errors.push('CEP deve ter 8 dígitos');
+    } else {
+      const address = await resolveCep(data.cep);
+      if (address) Object.assign(data, address);
+      else errors.push('CEP não encontrado');
+    }
+
+    rows.push({ line, raw, data, errors });
+    onProgress(i + 1, sheet.length);
+  }
+
+  return rows;
+};
+
+/* ------------------------------------------------------------------ */
+/* Componente                                                          */
+/* ------------------------------------------------------------------ */
+export function RestaurantImportModal({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { session } = useAuth();
+  const qc = useQueryClient();
+
+  return (
+    <ImportModal<RestaurantFormData>
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Importar Restaurantes"
+      description="Cadastre várias unidades de uma vez a partir de uma planilha"
+      templateHeaders={TEMPLATE_HEADERS}
+      columns={COLUMNS}
+      prepareRows={prepareRows}
+      importRow={(data) => invokeFunction('cf_create_restaurant', data, session?.access_token)}
+      describeError={(err) => {
+        const status = (err as { status?: number })?.status;
+        if (status === 409) return 'Email, CNPJ ou Código já existem';
+        if (status === 503) return 'Falha de conexão';
+        return 'Não foi possível criar o restaurante';
+      }}
+      onFinished={() => qc.invalidateQueries({ queryKey: ['restaurants'] })}
+      reportName="restaurantes"
+    />
+  );
+}
@@ -8,6 +8,8 @@ import {
 import { X, User, MapPin, Search } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { RestaurantWithPartners } from '../lib/restaurants';
+import { formatCnpj } from '../lib/validation';
 
 /* ------------------------------------------------------------------ */
 /* Tipos                                                               */
@@ -36,8 +38,15 @@ interface Props {
   onClose: () => void;
   onSubmit: (data: RestaurantFormData) => Promise<any>;
   isLoading: boolean;
+  /** Quando presente, o modal abre em modo de edição */
+  restaurant?: RestaurantWithPartners | null;
 }
 
+/* ------------------------------------------------------------------ */
+/* Helpers                                                             */
+/* ------------------------------------------------------------------ */
+const formatCep = (v: string) => v.replace(/\D/g, '').slice(0, 8);
+
 /* ------------------------------------------------------------------ */
 /* Componente                                                          */
 /* ------------------------------------------------------------------ */
@@ -46,7 +55,10 @@ export function RestaurantModal({
   onClose,
   onSubmit,
   isLoading,
+  restaurant,
 }: Props) {
+  const isEditing = !!restaurant;
+
   /* ----------------------------- estado ----------------------------- */
   const [cepLoading, setCepLoading] = useState(false);
   const [emailError, setEmailError] = useState('');
@@ -72,7 +84,7 @@ export function RestaurantModal({
 
   /* -------------------- autofill: garante 1º clique ----------------- */
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || isEditing) return;
     const t = setTimeout(() => {
       const domEmail = (
         document.querySelector(
@@ -85,7 +97,26 @@ export function RestaurantModal({
       }
     }, 200);
     return () => clearTimeout(t);
-  }, [isOpen, setValue, trigger]);
+  }, [isOpen, isEditing, setValue, trigger]);
+
+  /* ------------- edição: preenche com os dados atuais --------------- */
+  useEffect(() => {
+    if (!isOpen || !restaurant) return;
+    reset({
+      name: restaurant.name,
+      emailOwner: restaurant.email,
+      cnpj: restaurant.cnpj ? formatCnpj(restaurant.cnpj) : '',
+      code: restaurant.code ?? '',
+      phone: restaurant.phone ?? '',
+      cep: formatCep(restaurant.cep ?? ''),
+      number: restaurant.number ?? '',
+      street: restaurant.street ?? '',
+      city: restaurant.city ?? '',
+      uf: restaurant.uf ?? '',
+    });
+    // Endereço já validado no cadastro; só exige nova busca se o CEP mudar
+    setCepSearched(!!restaurant.cep);
+  }, [isOpen, restaurant, reset]);
 
   /* -------- NEW: reseta tudo quando modal é fechado ----------------- */
   useEffect(() => {
@@ -98,17 +129,6 @@ export function RestaurantModal({
   }, [isOpen, reset]);
 
   /* ------------------------ Helpers --------------------------------- */
-  const formatCep = (v: string) => v.replace(/\D/g, '').slice(0, 8);
-  
-  const formatCnpj = (v: string) => {
-    const digits = v.replace(/\D/g, '').slice(0, 14);
-    return digits
-      .replace(/^(\d{2})(\d)/, '$1.$2')
-      .replace(/^(\d{2})\.(\d{3})(\d)/, '$1.$2.$3')
-      .replace(/\.(\d{3})(\d)/, '.$1/$2')
-      .replace(/(\d{4})(\d)/, '$1-$2');
-  };
-
   const closeModal = () => {
     reset();
     setEmailError('');
@@ -166,7 +186,10 @@ export function RestaurantModal({
         const hasCode = !!data.code?.trim();
         
         let msg = '';
-        if (hasEmail && hasCnpj && hasCode) {
+        if (isEditing) {
+          // Email do proprietário não muda na edição
+          msg = hasCnpj && hasCode ? 'CNPJ ou Código já existem' : hasCnpj ? 'CNPJ já existe' : 'Código já existe';
+        } else if (hasEmail && hasCnpj && hasCode) {
           msg = 'Email, CNPJ ou Código já existem';
         } else if (hasEmail && hasCnpj) {
           msg = 'Email ou CNPJ já existem';
@@ -176,10 +199,16 @@ export function RestaurantModal({
           msg = 'Email já cadastrado';
         }
         
-        setEmailError(msg);
-        setError('emailOwner', { type: 'manual', message: msg });
+        if (isEditing) {
+          setError(hasCnpj ? 'cnpj' : 'code', { type: 'manual', message: msg });
+        } else {
+          setEmailError(msg);
+          setError('emailOwner', { type: 'manual', message: msg });
+        }
       } else {
-        const message = 'Não foi possível criar o restaurante, tente novamente mais tarde.';
+        const message = isEditing
+          ? 'Não foi possível salvar o restaurante, tente novamente mais tarde.'
+          : 'Não foi possível criar o restaurante, tente novamente mais tarde.';
         toast.error(message, { style: { zIndex: 9999 } });
       }
     }
@@ -210,7 +239,7 @@ export function RestaurantModal({
 
         <div className="relative bg-white rounded-xl shadow-xl max-w-4xl w-full">
           {/* ---------- Header ---------- */}
-          <Header onClose={closeModal} />
+          <Header onClose={closeModal} isEditing={isEditing} />
 
           {/* ---------- Form ---------- */}
           <div className="p-6">
@@ -228,6 +257,7 @@ export function RestaurantModal({
                 cnpjValue={cnpjValue}
                 codeValue={codeValue}
                 handleCnpjChange={handleCnpjChange}
+                isEditing={isEditing}
               />
               {/* ---------- Ações ---------- */}
               <div className="flex justify-end pt-6 space-x-3 border-t">
@@ -243,7 +273,9 @@ export function RestaurantModal({
                   disabled={isLoading || !cepSearched}
                   className="px-6 py-3 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  {isLoading ? 'Criando...' : 'Criar Restaurante'}
+                  {isEditing
+                    ? isLoading ? 'Salvando...' : 'Salvar Alterações'
+                    : isLoading ? 'Criando...' : 'Criar Restaurante'}
                 </button>
               </div>
             </form>
@@ -257,14 +289,16 @@ export function RestaurantModal({
 /* ------------------------------------------------------------------ */
 /* Header                                                              */
 /* ------------------------------------------------------------------ */
-const Header = ({ onClose }: { onClose: () => void }) => (
+const Header = ({ onClose, isEditing }: { onClose: () => void; isEditing: boolean }) => (
   <div className="flex items-center justify-between p-6 border-b">
     <div>
       <h3 className="text-xl font-semibold text-gray-900">
-        Novo Restaurante
+        {isEditing ? 'Editar Restaurante' : 'Novo Restaurante'}
       </h3>
       <p className="text-sm text-gray-500">
-        Preencha as informações para cadastrar um novo restaurante
+        {isEditing
+          ? 'Atualize as informações do restaurante'
+          : 'Preencha as informações para cadastrar um novo restaurante'}
       </p>
     </div>
     <button
@@ -296,6 +330,7 @@ interface GridProps {
   handleCepChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handleCnpjChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   fetchCepInfo: () => void;
+  isEditing: boolean;
 }
 const FormGrid: React.FC<GridProps> = ({
   register,
@@ -310,6 +345,7 @@ const FormGrid: React.FC<GridProps> = ({
   handleCepChange,
   handleCnpjChange,
   fetchCepInfo,
+  isEditing,
 }) => (
   <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
     {/* ===== Identificação / Contato ===== */}
@@ -334,6 +370,8 @@ const FormGrid: React.FC<GridProps> = ({
         autoComplete="email"
         placeholder="gerente@restaurante.com"
         error={errors.emailOwner?.message || emailError}
+        readOnly={isEditing}
+        bg={isEditing ? 'bg-gray-50 text-gray-600' : undefined}
         inputClassName={
           emailError ? 'border-red-500 focus:ring-red-500' : ''
         }
@@ -0,0 +1,31 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { WeeklyKgPoint } from '../lib/donationStats';
+
+/** Barras de kg por semana (ver `getWeeklyKg`). */
+export function WeeklyKgChart({ data, color = '#2563eb' }: { data: WeeklyKgPoint[]; color?: string }) {
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+          <YAxis tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+          <Tooltip
+            formatter={(value) => [`${value} kg`, 'Total']}
+            labelFormatter={(label) => `Semana de ${label}`}
+            cursor={{ fill: '#eff6ff' }}
+          />
+          <Bar dataKey="kg" fill={color} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { AdminDonation, DonationIntent } from '../lib/donations';
+
+/* ------------------------------------------------------------------ */
+/* Tipos (linhas cruas das tabelas)                                    */
+/* ------------------------------------------------------------------ */
+type DonationRow = {
+  id: string;
+  status: AdminDonation['donation_status'];
+  pickup_deadline_at: string | null;
+  accepted_at: string | null;
+  released_at: string | null;
+  picked_up_at: string | null;
+};
+
+type DonationIntentRow = {
+  id: string;
+  donation_id: string;
+  osc_id: string;
+  status: DonationIntent['status'];
+  updated_at: string;
+  expires_at: string | null;
+};
+
+const ONGOING_KEY = ['admin', 'ongoing-donations'];
+const ONGOING_STATUSES: AdminDonation['donation_status'][] = ['pending', 'accepted'];
+
+/* ------------------------------------------------------------------ */
+/* Helpers de patch do cache                                           */
+/* ------------------------------------------------------------------ */
+const patchDonation = (
+  qc: QueryClient,
+  donationId: string,
+  patch: (donation: AdminDonation) => AdminDonation,
+) => {
+  // Doações que saem de pending/accepted deixam a lista de andamento
+  qc.setQueryData<AdminDonation[]>(ONGOING_KEY, (list) =>
+    list
+      ?.map((d) => (d.donation_id === donationId ? patch(d) : d))
+      .filter((d) => ONGOING_STATUSES.includes(d.donation_status)),
+  );
+
+  qc.setQueryData<AdminDonation | null>(['admin', 'donation', donationId], (donation) =>
+    donation ? patch(donation) : donation,
+  );
+};
+
+const hasCachedDonation = (qc: QueryClient, donationId: string) =>
+  !!qc.getQueryData<AdminDonation[]>(ONGOING_KEY)?.some((d) => d.donation_id === donationId) ||
+  !!qc.getQueryData<AdminDonation | null>(['admin', 'donation', donationId]);
+
+const invalidateDonation = (qc: QueryClient, donationId: string) => {
+  qc.invalidateQueries({ queryKey: ONGOING_KEY });
+  qc.invalidateQueries({ queryKey: ['admin', 'donation', donationId] });
+};
+
+const invalidateAggregates = (qc: QueryClient) => {
+  qc.invalidateQueries({ queryKey: ['admin', 'feed'] });
+  qc.invalidateQueries({ queryKey: ['admin', 'counters'] });
+  qc.invalidateQueries({ queryKey: ['admin', 'donation-counters'] });
+  qc.invalidateQueries({ queryKey: ['admin', 'donations-history'] });
+};
+
+/* ------------------------------------------------------------------ */
+/* Handlers                                                            */
+/* ------------------------------------------------------------------ */
+const onDonationChange = (qc: QueryClient, payload: RealtimePostgresChangesPayload<DonationRow>) => {
+  if (payload.eventType === 'UPDATE') {
+    const row = payload.new;
+    if (hasCachedDonation(qc, row.id)) {
+      patchDonation(qc, row.id, (d) => ({
+        ...d,
+        donation_status: row.status,
+        pickup_deadline_at: row.pickup_deadline_at,
+        accepted_at: row.accepted_at,
+        released_at: row.released_at,
+        picked_up_at: row.picked_up_at,
+      }));
+    } else if (ONGOING_STATUSES.includes(row.status)) {
+      invalidateDonation(qc, row.id);
+    }
+  } else if (payload.eventType === 'INSERT') {
+    // Linha crua não traz restaurante/OSC/pacotes: busca a view de novo
+    invalidateDonation(qc, payload.new.id);
+  } else if (payload.eventType === 'DELETE' && payload.old.id) {
+    const donationId = payload.old.id;
+    qc.setQueryData<AdminDonation[]>(ONGOING_KEY, (list) =>
+      list?.filter((d) => d.donation_id !== donationId),
+    );
+    qc.setQueryData(['admin', 'donation', donationId], null);
+  }
+
+  invalidateAggregates(qc);
+};
+
+const onIntentChange = (qc: QueryClient, payload: RealtimePostgresChangesPayload<DonationIntentRow>) => {
+  if (payload.eventType === 'UPDATE') {
+    const row = payload.new;
+    const cached =
+      qc.getQueryData<AdminDonation[]>(ONGOING_KEY)?.find((d) => d.donation_id === row.donation_id) ??
+      qc.getQueryData<AdminDonation | null>(['admin', 'donation', row.donation_id]);
+
+    if (cached?.donation_intents.some((i) => i.id === row.id)) {
+      patchDonation(qc, row.donation_id, (d) => ({
+        ...d,
+        donation_intents: d.donation_intents.map((i) =>
+          i.id === row.id
+            ? { ...i, status: row.status, updated_at: row.updated_at, expires_at: row.expires_at }
+            : i,
+        ),
+      }));
+    } else {
+      invalidateDonation(qc, row.donation_id);
+    }
+  } else if (payload.eventType === 'INSERT') {
+    // Nova oferta (ex.: redirecionamento) precisa do nome da OSC vindo da view
+    invalidateDonation(qc, payload.new.donation_id);
+  } else if (payload.eventType === 'DELETE') {
+    qc.invalidateQueries({ queryKey: ONGOING_KEY });
+  }
+
+  qc.invalidateQueries({ queryKey: ['admin', 'osc-intents'] });
+  qc.invalidateQueries({ queryKey: ['admin', 'feed'] });
+};
+
+const onPartnershipChange = (qc: QueryClient) => {
+  qc.invalidateQueries({ queryKey: ['restaurants'] });
+  qc.invalidateQueries({ queryKey: ['partnerships'] });
+  qc.invalidateQueries({ queryKey: ['admin', 'counters'] });
+  qc.invalidateQueries({ queryKey: ['admin', 'feed'] });
+};
+
+/* ------------------------------------------------------------------ */
+/* Hook                                                                */
+/* ------------------------------------------------------------------ */
+/**
+ * Assina o Supabase Realtime e mantém o cache do React Query em dia:
+ * mudanças simples são aplicadas direto no cache, o resto é invalidado.
+ * Deve ser montado uma única vez, no Layout.
+ */
+export function useAdminRealtime() {
+  const qc = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('admin-realtime')
+      .on<DonationRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'donations' },
+        (payload) => onDonationChange(qc, payload),
+      )
+      .on<DonationIntentRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'donation_intents' },
+        (payload) => onIntentChange(qc, payload),
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'partnerships' },
+        () => onPartnershipChange(qc),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [qc]);
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { Permission, Role, roleCan } from '../lib/permissions';
 import toast from 'react-hot-toast';
 
 interface AuthContextType {
@@ -8,10 +9,21 @@ interface AuthContextType {
   session: Session | null;
   loading: boolean;
   isCfUser: boolean | null;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
 }
 
+// Retorno da RPC cf_access: se o usuário é CF e com qual papel
+type CfAccess = {
+  is_cf: boolean;
+  role: Role | null;
+};
+
+// Esperas entre novas tentativas quando o cf_access falha por rede/servidor
+const ACCESS_RETRY_DELAYS_MS = [2_000, 5_000, 15_000, 30_000];
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -19,9 +31,60 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [isCfUser, setIsCfUser] = useState<boolean | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
 
   useEffect(() => {
+    // Só a verificação mais recente vale (login e refresh podem se sobrepor)
+    let latestCheck = 0;
+    let verifiedUserId: string | null = null;
+
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const denyAccess = async (message: string) => {
+      verifiedUserId = null;
+      await supabase.auth.signOut({ scope: 'local' });
+      toast.error(message);
+      setIsCfUser(false);
+      setRole(null);
+    };
+
+    // Acesso vem sempre do servidor (RPC cf_access); nada de cache no cliente,
+    // que o próprio usuário conseguiria editar.
+    const verifyAccess = async (session: Session, attempt = 0): Promise<void> => {
+      const check = ++latestCheck;
+      clearTimeout(retryTimer);
+      // Revalidar o mesmo usuário não volta ao spinner
+      if (session.user.id !== verifiedUserId) setIsCfUser(null);
+
+      const { data, error } = await supabase.rpc('cf_access').single();
+      if (check !== latestCheck) return;
+
+      if (!error) {
+        const access = data as CfAccess;
+        if (!access.is_cf) return denyAccess('Acesso restrito a usuários Connecting Food');
+        verifiedUserId = session.user.id;
+        setIsCfUser(true);
+        setRole(access.role ?? 'viewer');
+        return;
+      }
+
+      // Falha de rede/servidor não revoga o acesso: mantém o último estado
+      // verificado e tenta de novo
+      console.error('Erro ao verificar permissões:', error);
+      if (attempt < ACCESS_RETRY_DELAYS_MS.length) {
+        retryTimer = setTimeout(() => {
+          if (check === latestCheck) verifyAccess(session, attempt + 1);
+        }, ACCESS_RETRY_DELAYS_MS[attempt]);
+        return;
+      }
+      // Sem nenhuma verificação bem-sucedida não há como liberar o acesso
+      if (session.user.id !== verifiedUserId) await denyAccess('Erro ao verificar permissões');
+    };
+
     const init = async () => {
+      // Versões anteriores guardavam o is_cf aqui; não é mais usado
+      localStorage.removeItem('isCfUser');
+
       try {
         const {
           data: { session },
@@ -29,35 +92,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
 
-        const cached =
-          session?.user?.user_metadata?.is_cf ??
-          JSON.parse(localStorage.getItem('isCfUser') ?? 'null');
-
         if (!session) {
           setIsCfUser(false);
           return;
         }
 
-        if (cached !== null) {
-          setIsCfUser(Boolean(cached));
-          return;
-        }
-
-        try {
-          const { data: isCf, error } = await supabase.rpc('is_cf');
-          if (error || !isCf) {
-            throw error ?? new Error('Acesso restrito a usuários Connecting Food');
-          }
-          setIsCfUser(Boolean(isCf));
-          await supabase.auth.updateUser({ data: { is_cf: isCf } });
-          localStorage.setItem('isCfUser', JSON.stringify(isCf));
-        } catch (error) {
-          console.error('Erro ao verificar permissões:', error);
-          await supabase.auth.signOut({ scope: 'local' });
-          localStorage.removeItem('isCfUser');
-          toast.error('Erro ao verificar permissões');
-          setIsCfUser(false);
-        }
+        await verifyAccess(session);
       } catch (error) {
         console.error('Erro ao obter sessão:', error);
         setIsCfUser(false);
@@ -70,44 +110,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange(async (event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
 
-      if (session?.user) {
-        const cached =
-          session.user.user_metadata?.is_cf ??
-          JSON.parse(localStorage.getItem('isCfUser') ?? 'null');
-        if (cached !== null) {
-          setIsCfUser(Boolean(cached));
-          setLoading(false);
-          return;
-        }
-
-        try {
-          const { data: isCf, error } = await supabase.rpc('is_cf');
-          if (error || !isCf) {
-            throw error ?? new Error('Acesso restrito a usuários Connecting Food');
-          }
-          setIsCfUser(true);
-          await supabase.auth.updateUser({ data: { is_cf: isCf } });
-          localStorage.setItem('isCfUser', JSON.stringify(isCf));
-        } catch (error) {
-          console.error('Erro na verificação CF:', error);
-          await supabase.auth.signOut({ scope: 'local' });
-          localStorage.removeItem('isCfUser');
-          toast.error('Erro ao verificar permissões');
-          setIsCfUser(false);
-        }
-      } else {
+      if (!session?.user) {
+        latestCheck++;
+        verifiedUserId = null;
         setIsCfUser(null);
-        localStorage.removeItem('isCfUser');
+        setRole(null);
+        setLoading(false);
+        return;
       }
 
-      setLoading(false);
+      // A sessão inicial já é verificada em init()
+      if (event === 'INITIAL_SESSION') return;
+
+      // Revalida a cada login e refresh do token, para que um acesso revogado
+      // caia no próximo refresh. A RPC roda fora do callback: chamar o
+      // supabase aqui dentro trava o cliente.
+      if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
+        setTimeout(() => {
+          verifyAccess(session).finally(() => setLoading(false));
+        }, 0);
+      }
     });
 
-    return () => subscription.unsubscribe();
+    return () => {
+      clearTimeout(retryTimer);
+      subscription.unsubscribe();
+    };
   }, []);
 
   const signIn = async (email: string, password: string) => {
@@ -131,7 +163,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(null);
       setSession(null);
       setIsCfUser(null);
-      localStorage.removeItem('isCfUser');
+      setRole(null);
     }
   };
   
@@ -141,6 +173,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       session,
       loading,
       isCfUser,
+      role,
+      can: (permission: Permission) => roleCan(role, permission),
       signIn,
       signOut,
     }}>
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Compara versões sucessivas de uma lista e devolve as chaves dos itens
+ * novos ou alterados, por `durationMs`. A primeira carga não destaca nada.
+ */
+export function useChangedKeys<T>(
+  items: T[] | undefined,
+  getKey: (item: T) => string,
+  durationMs = 4000,
+) {
+  const [changed, setChanged] = useState<Set<string>>(new Set());
+  const previous = useRef<Map<string, string> | null>(null);
+  const timers = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const getKeyRef = useRef(getKey);
+
+  // Declarado antes do efeito de comparação para já valer na mesma rodada
+  useEffect(() => {
+    getKeyRef.current = getKey;
+  }, [getKey]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  useEffect(() => {
+    if (!items) return;
+
+    const current = new Map(items.map((item) => [getKeyRef.current(item), JSON.stringify(item)]));
+    const prev = previous.current;
+    previous.current = current;
+    if (!prev) return;
+
+    const keys = [...current].filter(([key, sig]) => prev.get(key) !== sig).map(([key]) => key);
+    if (keys.length === 0) return;
+
+    setChanged((old) => new Set([...old, ...keys]));
+    const timer = setTimeout(() => {
+      timers.current.delete(timer);
+      setChanged((old) => {
+        const next = new Set(old);
+        keys.forEach((k) => next.delete(k));
+        return next;
+      });
+    }, durationMs);
+    timers.current.add(timer);
+  }, [items, durationMs]);
+
+  return changed;
+}
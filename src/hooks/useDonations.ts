@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { AdminDonation } from '../lib/donations';
+
+/** Doações pendentes e aceitas — compartilhada pela página e pelos alertas. */
+export function useOngoingDonations() {
+  return useQuery<AdminDonation[]>({
+    queryKey: ['admin', 'ongoing-donations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('v_admin_donations_ongoing')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 30_000,
+  });
+}
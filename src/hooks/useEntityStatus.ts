@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { invokeFunction } from '../lib/functions';
+import { useAuth } from './useAuth';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type EntityKind = 'restaurant' | 'osc';
+export type EntityStatus = 'active' | 'inactive' | 'invite_sent';
+
+export type EntityImpact = {
+  openDonations: number;
+  partnerships: number;
+};
+
+const LIST_KEY: Record<EntityKind, string[]> = {
+  restaurant: ['restaurants'],
+  osc: ['oscs'],
+};
+
+const ENTITY_COLUMN: Record<EntityKind, string> = {
+  restaurant: 'restaurant_id',
+  osc: 'osc_id',
+};
+
+/* ------------------------------------------------------------------ */
+/* Hooks                                                               */
+/* ------------------------------------------------------------------ */
+/** Doações em andamento e parcerias afetadas por uma mudança de status. */
+export function useEntityImpact(entity: EntityKind, id: string | null) {
+  return useQuery<EntityImpact>({
+    queryKey: ['entity-impact', entity, id],
+    queryFn: async () => {
+      const column = ENTITY_COLUMN[entity];
+      const [donations, partnerships] = await Promise.all([
+        supabase
+          .from('v_admin_donations_ongoing')
+          .select('donation_id', { count: 'exact', head: true })
+          .eq(column, id),
+        supabase
+          .from('partnerships')
+          .select('osc_id', { count: 'exact', head: true })
+          .eq(column, id),
+      ]);
+      if (donations.error) throw donations.error;
+      if (partnerships.error) throw partnerships.error;
+
+      return {
+        openDonations: donations.count ?? 0,
+        partnerships: partnerships.count ?? 0,
+      };
+    },
+    enabled: !!id,
+  });
+}
+
+/** Ativar/desativar e reenviar convite, via Edge Functions. */
+export function useEntityStatusActions(entity: EntityKind) {
+  const { session } = useAuth();
+  const qc = useQueryClient();
+
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: LIST_KEY[entity] });
+    qc.invalidateQueries({ queryKey: ['partnerships'] });
+    qc.invalidateQueries({ queryKey: ['admin', 'counters'] });
+  };
+
+  const setStatusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: Exclude<EntityStatus, 'invite_sent'> }) =>
+      invokeFunction('cf_set_entity_status', { entity, id, status }, session?.access_token),
+    onSuccess: (_data, { status }) => {
+      invalidate();
+      toast.success(status === 'active' ? 'Cadastro reativado!' : 'Cadastro desativado!');
+    },
+    onError: () => {
+      toast.error('Erro ao atualizar o status');
+    },
+  });
+
+  const resendInviteMutation = useMutation({
+    mutationFn: (id: string) =>
+      invokeFunction<{ invite_sent_at: string }>(
+        'cf_resend_invite',
+        { entity, id },
+        session?.access_token,
+      ),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Convite reenviado!');
+    },
+    onError: () => {
+      toast.error('Erro ao reenviar o convite');
+    },
+  });
+
+  return { setStatusMutation, resendInviteMutation };
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { FunctionErrorStatus, invokeFunction } from '../lib/functions';
+import { ImpactFactors } from '../lib/impact';
+import { useAuth } from './useAuth';
+
+export type NewImpactFactors = Pick<
+  ImpactFactors,
+  'kg_per_meal' | 'meals_per_beneficiary' | 'default_co2e_per_kg' | 'co2e_per_kg_by_category' | 'valid_from' | 'notes'
+>;
+
+/** Todas as versões do modelo de impacto, da mais antiga para a mais nova. */
+export function useImpactFactors() {
+  return useQuery<ImpactFactors[]>({
+    queryKey: ['impact-factors'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('impact_factors')
+        .select('*')
+        .order('version', { ascending: true });
+      if (error) throw error;
+      return data as ImpactFactors[];
+    },
+    staleTime: 5 * 60_000,
+  });
+}
+
+/** Publica uma nova versão (o servidor atribui o número da versão). */
+export function useCreateImpactFactors() {
+  const { session } = useAuth();
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: (factors: NewImpactFactors) =>
+      invokeFunction<ImpactFactors>('cf_create_impact_factors', factors, session?.access_token),
+    onSuccess: (created) => {
+      qc.invalidateQueries({ queryKey: ['impact-factors'] });
+      toast.success(`Versão v${created.version} publicada!`);
+    },
+    onError: (err: unknown) => {
+      // O servidor também recusa versões com vigência no passado
+      if ((err as FunctionErrorStatus).status === 409) {
+        toast.error('A vigência não pode ser anterior a hoje nem à versão atual');
+        return;
+      }
+      toast.error('Erro ao publicar os fatores');
+    },
+  });
+}
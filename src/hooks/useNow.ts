@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+
+/** Relógio que re-renderiza o componente a cada `intervalMs`. */
+export function useNow(intervalMs: number) {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
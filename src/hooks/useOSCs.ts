@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { OSC } from '../lib/oscs';
+
+/** Todas as OSCs — compartilhada pela lista, mapa e relatórios. */
+export function useOSCs() {
+  return useQuery<OSC[]>({
+    queryKey: ['oscs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('osc')
+        .select('*')
+        .order('added_at', { ascending: false });
+
+      if (error) throw error;
+      return data as OSC[];
+    },
+  });
+}
@@ -0,0 +1,134 @@
+import { QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { FunctionErrorStatus, invokeFunction } from '../lib/functions';
+import { RestaurantWithPartners } from '../lib/restaurants';
+import { useAuth } from './useAuth';
+
+type FavoriteVars = { restaurantId: string; oscId: string; isFavorite: boolean };
+
+type RemoveVars = {
+  restaurantId: string;
+  oscId: string;
+  force: boolean;
+  replacementOscId?: string | null;
+};
+
+export type PartnershipImpact = {
+  activeDonations: number;
+  waitingIntents: number;
+};
+
+/** Aplica localmente a regra "uma favorita por restaurante". */
+const applyFavorite = (r: RestaurantWithPartners, { restaurantId, oscId, isFavorite }: FavoriteVars) =>
+  r.id !== restaurantId
+    ? r
+    : {
+        ...r,
+        partnerships: (r.partnerships ?? []).map(p => ({
+          ...p,
+          is_favorite: p.osc.id === oscId ? isFavorite : isFavorite ? false : p.is_favorite,
+        })),
+      };
+
+/** Doações pendentes/aceitas e ofertas aguardando resposta entre o par. */
+export function usePartnershipImpact(restaurantId: string | null, oscId: string | null) {
+  return useQuery<PartnershipImpact>({
+    queryKey: ['partnership-impact', restaurantId, oscId],
+    queryFn: async () => {
+      const [donations, intents] = await Promise.all([
+        supabase
+          .from('v_admin_donations')
+          .select('donation_id', { count: 'exact', head: true })
+          .eq('restaurant_id', restaurantId)
+          .eq('osc_id', oscId)
+          .in('donation_status', ['pending', 'accepted']),
+        supabase
+          .from('donation_intents')
+          .select('id, donation:donation_id!inner(restaurant_id)', { count: 'exact', head: true })
+          .eq('osc_id', oscId)
+          .eq('status', 'waiting_response')
+          .eq('donation.restaurant_id', restaurantId),
+      ]);
+      if (donations.error) throw donations.error;
+      if (intents.error) throw intents.error;
+
+      return {
+        activeDonations: donations.count ?? 0,
+        waitingIntents: intents.count ?? 0,
+      };
+    },
+    enabled: !!restaurantId && !!oscId,
+  });
+}
+
+/**
+ * Favoritar e remover parcerias — usado na lista de restaurantes e nas
+ * páginas de detalhe.
+ */
+export function usePartnershipActions() {
+  const qc = useQueryClient();
+  const { session } = useAuth();
+
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: ['restaurants'] });
+    qc.invalidateQueries({ queryKey: ['partnerships'] });
+  };
+
+  /* ---------------------- Mutation: toggle favorite -------------------- */
+  // Troca atômica no servidor (`cf_set_favorite_partnership` garante no
+  // máximo uma favorita por restaurante); a UI aplica antes e desfaz se falhar.
+  const toggleFavoriteMutation = useMutation<void, unknown, FavoriteVars, { snapshot: [QueryKey, unknown][] }>({
+    mutationFn: ({ restaurantId, oscId, isFavorite }) =>
+      invokeFunction('cf_set_favorite_partnership', {
+        restaurant_id: restaurantId,
+        osc_id: oscId,
+        is_favorite: isFavorite,
+      }, session?.access_token),
+    onMutate: async (vars) => {
+      await qc.cancelQueries({ queryKey: ['restaurants'] });
+      const snapshot = qc.getQueriesData({ queryKey: ['restaurants'] });
+      qc.setQueriesData({ queryKey: ['restaurants'] }, (data: unknown) =>
+        Array.isArray(data)
+          ? (data as RestaurantWithPartners[]).map(r => applyFavorite(r, vars))
+          : data && applyFavorite(data as RestaurantWithPartners, vars),
+      );
+      return { snapshot };
+    },
+    onError: (_err, _vars, context) => {
+      context?.snapshot.forEach(([key, data]) => qc.setQueryData(key, data));
+      toast.error('Erro ao atualizar favorita');
+    },
+    onSuccess: () => {
+      toast.success('Favorita atualizada!');
+    },
+    onSettled: invalidate,
+  });
+
+  /* ---------------------- Mutation: remove partnership -------------------- */
+  // O servidor recusa (409) quando há doações/ofertas ativas e `force` não
+  // veio, e troca a favorita na mesma transação quando `replacementOscId` vem.
+  const removePartnershipMutation = useMutation({
+    mutationFn: ({ restaurantId, oscId, force, replacementOscId }: RemoveVars) =>
+      invokeFunction('cf_remove_partnership', {
+        restaurant_id: restaurantId,
+        osc_id: oscId,
+        force,
+        replacement_favorite_osc_id: replacementOscId ?? null,
+      }, session?.access_token),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Parceria removida com sucesso!');
+    },
+    onError: (err: unknown) => {
+      const status = (err as FunctionErrorStatus)?.status;
+      toast.error(
+        status === 409
+          ? 'A parceria tem doações em andamento. Confirme a remoção forçada.'
+          : 'Erro ao remover parceria',
+      );
+    },
+  });
+
+  return { toggleFavoriteMutation, removePartnershipMutation };
+}
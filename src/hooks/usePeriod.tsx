@@ -0,0 +1,47 @@
+import { createContext, ReactNode, useContext, useMemo, useState } from 'react';
+import { DateRange } from '../lib/donationStats';
+import { PeriodPreset, lastDays, previousRange, resolvePeriod } from '../lib/period';
+
+interface PeriodContextType {
+  preset: PeriodPreset;
+  range: DateRange;
+  previous: DateRange;
+  setPreset: (preset: PeriodPreset) => void;
+  setCustomRange: (range: DateRange) => void;
+}
+
+const PeriodContext = createContext<PeriodContextType | undefined>(undefined);
+
+/** Período selecionado no painel, compartilhado entre Dashboard e Doações. */
+export function PeriodProvider({ children }: { children: ReactNode }) {
+  const [preset, setPreset] = useState<PeriodPreset>('30d');
+  const [custom, setCustom] = useState<DateRange>(() => lastDays(30));
+
+  const value = useMemo(() => {
+    const range = resolvePeriod(preset, custom);
+    return {
+      preset,
+      range,
+      previous: previousRange(range),
+      setPreset: (next: PeriodPreset) => {
+        // Ao entrar no modo personalizado, parte do período que estava na tela
+        if (next === 'custom') setCustom(range);
+        setPreset(next);
+      },
+      setCustomRange: (next: DateRange) => {
+        setCustom(next);
+        setPreset('custom');
+      },
+    };
+  }, [preset, custom]);
+
+  return <PeriodContext.Provider value={value}>{children}</PeriodContext.Provider>;
+}
+
+export function usePeriod() {
+  const context = useContext(PeriodContext);
+  if (context === undefined) {
+    throw new Error('usePeriod must be used within a PeriodProvider');
+  }
+  return context;
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { rangeBounds } from '../lib/period';
+import { usePeriod } from './usePeriod';
+
+export type PeriodComparison<T> = { current: T; previous: T };
+
+/**
+ * Busca a mesma métrica para o período global e para o período anterior de
+ * mesmo tamanho. A chave recebe as datas no fim, então invalidar o prefixo
+ * (ex.: ['admin', 'counters']) continua atualizando todos os períodos.
+ */
+export function usePeriodComparison<T>(
+  queryKey: unknown[],
+  fetcher: (bounds: { from: string; to: string }) => Promise<T>,
+) {
+  const { range, previous } = usePeriod();
+
+  return useQuery<PeriodComparison<T>>({
+    queryKey: [...queryKey, range.from, range.to],
+    queryFn: async () => {
+      const [current, before] = await Promise.all([
+        fetcher(rangeBounds(range)),
+        fetcher(rangeBounds(previous)),
+      ]);
+      return { current, previous: before };
+    },
+    staleTime: 60_000,
+  });
+}
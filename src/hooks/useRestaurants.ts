@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { RestaurantWithPartners } from '../lib/restaurants';
+
+/** Restaurantes com parcerias — compartilhada pela lista, mapa e relatórios. */
+export function useRestaurants() {
+  return useQuery<RestaurantWithPartners[]>({
+    queryKey: ['restaurants'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('v_restaurants_partners')
+        .select('*')
+        .order('added_at', { ascending: false });
+
+      if (error) throw error;
+      return data as RestaurantWithPartners[];
+    },
+  });
+}
@@ -0,0 +1,111 @@
+import { AdminDonation } from './donations';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type AlertSettings = {
+  intentThresholdMin: number; // aviso antes da oferta expirar
+  pickupThresholdMin: number; // aviso antes do prazo de coleta
+};
+
+export type SlaAlertKind = 'intent_expiring' | 'intent_expired' | 'pickup_near' | 'pickup_overdue';
+
+export type SlaAlert = {
+  key: string;
+  kind: SlaAlertKind;
+  donationId: string;
+  deadline: string;
+  title: string;
+  description: string;
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  intentThresholdMin: 60,
+  pickupThresholdMin: 120,
+};
+
+const SETTINGS_KEY = 'cf-admin:alert-settings';
+
+/* ------------------------------------------------------------------ */
+/* Preferências (por navegador)                                        */
+/* ------------------------------------------------------------------ */
+export const loadAlertSettings = (): AlertSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return { ...DEFAULT_ALERT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_ALERT_SETTINGS;
+  }
+};
+
+export const saveAlertSettings = (settings: AlertSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/* ------------------------------------------------------------------ */
+/* Regras de SLA                                                       */
+/* ------------------------------------------------------------------ */
+/**
+ * Doações pendentes cuja oferta expira dentro do limite (ou já expirou) e
+ * doações aceitas com prazo de coleta próximo ou vencido. A `key` muda quando
+ * o alerta escala (ex.: próximo → vencido), o que permite notificar de novo.
+ */
+export const getSlaAlerts = (
+  donations: AdminDonation[],
+  now: Date,
+  settings: AlertSettings,
+): SlaAlert[] => {
+  const alerts: SlaAlert[] = [];
+  const short = (id: string) => `#${id.slice(-8)}`;
+
+  for (const d of donations) {
+    if (d.donation_status === 'pending') {
+      const waiting = d.donation_intents.find(i => i.status === 'waiting_response');
+      if (!waiting?.expires_at) continue;
+
+      const diffMin = (new Date(waiting.expires_at).getTime() - now.getTime()) / 60_000;
+      if (diffMin <= 0) {
+        alerts.push({
+          key: `intent_expired:${waiting.id}`,
+          kind: 'intent_expired',
+          donationId: d.donation_id,
+          deadline: waiting.expires_at,
+          title: `Oferta expirada ${short(d.donation_id)}`,
+          description: `${waiting.osc.name} não respondeu à doação de ${d.restaurant_name}`,
+        });
+      } else if (diffMin <= settings.intentThresholdMin) {
+        alerts.push({
+          key: `intent_expiring:${waiting.id}`,
+          kind: 'intent_expiring',
+          donationId: d.donation_id,
+          deadline: waiting.expires_at,
+          title: `Oferta expirando ${short(d.donation_id)}`,
+          description: `${waiting.osc.name} tem ${Math.ceil(diffMin)} min para aceitar a doação de ${d.restaurant_name}`,
+        });
+      }
+    } else if (d.donation_status === 'accepted' && d.pickup_deadline_at) {
+      const diffMin = (new Date(d.pickup_deadline_at).getTime() - now.getTime()) / 60_000;
+      if (diffMin <= 0) {
+        alerts.push({
+          key: `pickup_overdue:${d.donation_id}`,
+          kind: 'pickup_overdue',
+          donationId: d.donation_id,
+          deadline: d.pickup_deadline_at,
+          title: `Coleta atrasada ${short(d.donation_id)}`,
+          description: `${d.osc_name} ainda não retirou a doação em ${d.restaurant_name}`,
+        });
+      } else if (diffMin <= settings.pickupThresholdMin) {
+        alerts.push({
+          key: `pickup_near:${d.donation_id}`,
+          kind: 'pickup_near',
+          donationId: d.donation_id,
+          deadline: d.pickup_deadline_at,
+          title: `Prazo de coleta próximo ${short(d.donation_id)}`,
+          description: `${d.osc_name} tem ${Math.ceil(diffMin)} min para retirar em ${d.restaurant_name}`,
+        });
+      }
+    }
+  }
+
+  return alerts.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime());
+};
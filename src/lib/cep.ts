@@ -0,0 +1,48 @@
+import { FunctionErrorStatus, invokeFunction } from './functions';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export interface CepData {
+  street: string;
+  city: string;
+  uf: string;
+}
+
+/** Falha ao falar com o `util_cep_info` (rede ou servidor), não CEP inexistente. */
+export class CepLookupError extends Error {
+  constructor(readonly status: number) {
+    super('Não foi possível consultar o CEP');
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Consulta                                                            */
+/* ------------------------------------------------------------------ */
+/** Endereço de um CEP via `util_cep_info`; null quando o CEP não existe. */
+export async function lookupCep(cep: string): Promise<CepData | null> {
+  try {
+    const data = await invokeFunction<Partial<CepData>>('util_cep_info', { cep });
+    return data.city ? (data as CepData) : null;
+  } catch (err) {
+    const status = (err as FunctionErrorStatus)?.status ?? 503;
+    if (status < 500) return null;
+    throw new CepLookupError(status);
+  }
+}
+
+/**
+ * `lookupCep` com cache por CEP, para importações em lote em que várias
+ * linhas repetem o mesmo endereço.
+ */
+export function createCepResolver() {
+  const cache = new Map<string, Promise<CepData | null>>();
+  return (cep: string) => {
+    let address = cache.get(cep);
+    if (!address) {
+      address = lookupCep(cep);
+      cache.set(cep, address);
+    }
+    return address;
+  };
+}
@@ -0,0 +1,213 @@
+import { AdminDonation, DonationIntent, getTotalKg } from './donations';
+import { parseDay, toDay } from './period';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type DonationStats = {
+  totalDonations: number;
+  donatedKg: number; // doações coletadas
+  discardedKg: number; // doações negadas por todas as OSCs
+  acceptanceRate: number | null; // 0..1, sobre as ofertas já respondidas/expiradas
+  avgTimeToAcceptMin: number | null;
+};
+
+export type WeeklyKgPoint = {
+  week: string; // início da semana (segunda-feira), yyyy-mm-dd
+  label: string; // dd/mm
+  kg: number;
+};
+
+export type Granularity = 'week' | 'month';
+
+/** Intervalo em dias locais, inclusivo nas duas pontas (yyyy-mm-dd). */
+export type DateRange = { from: string; to: string };
+
+export type PeriodPoint = { key: string; label: string };
+export type KgPoint = PeriodPoint & { kg: number };
+export type IntentOutcomePoint = PeriodPoint & { accepted: number; denied: number; expired: number };
+export type RankedKg = { id: string; name: string; kg: number };
+
+/* ------------------------------------------------------------------ */
+/* Métricas                                                            */
+/* ------------------------------------------------------------------ */
+const CLOSED_INTENT_STATUSES: DonationIntent['status'][] = ['accepted', 'denied', 'expired'];
+
+export const getDonationStats = (donations: AdminDonation[]): DonationStats => {
+  const intents = donations.flatMap(d => d.donation_intents);
+  const closedIntents = intents.filter(i => CLOSED_INTENT_STATUSES.includes(i.status));
+  const acceptedIntents = closedIntents.filter(i => i.status === 'accepted');
+
+  const acceptDurations = donations
+    .filter(d => d.accepted_at)
+    .map(d => (new Date(d.accepted_at!).getTime() - new Date(d.created_at).getTime()) / 60_000)
+    .filter(min => min >= 0);
+
+  const sumKg = (list: AdminDonation[]) => list.reduce((acc, d) => acc + getTotalKg(d), 0);
+
+  return {
+    totalDonations: donations.length,
+    donatedKg: sumKg(donations.filter(d => d.donation_status === 'picked_up')),
+    discardedKg: sumKg(donations.filter(d => d.donation_status === 'denied')),
+    acceptanceRate: closedIntents.length ? acceptedIntents.length / closedIntents.length : null,
+    avgTimeToAcceptMin: acceptDurations.length
+      ? acceptDurations.reduce((a, b) => a + b, 0) / acceptDurations.length
+      : null,
+  };
+};
+
+/* ------------------------------------------------------------------ */
+/* Séries temporais                                                    */
+/* ------------------------------------------------------------------ */
+const startOfWeek = (date: Date) => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+};
+
+/**
+ * Kg coletados por semana, nas últimas `weeks` semanas (semanas sem coleta
+ * aparecem com 0 para o gráfico não "pular" datas).
+ */
+export const getWeeklyKg = (donations: AdminDonation[], weeks = 12, now = new Date()): WeeklyKgPoint[] => {
+  const buckets = new Map<string, number>();
+  const first = startOfWeek(now);
+  first.setDate(first.getDate() - (weeks - 1) * 7);
+
+  for (let i = 0; i < weeks; i++) {
+    const d = new Date(first);
+    d.setDate(first.getDate() + i * 7);
+    buckets.set(toDay(d), 0);
+  }
+
+  for (const d of donations) {
+    if (d.donation_status !== 'picked_up') continue;
+    const key = toDay(startOfWeek(new Date(d.picked_up_at ?? d.created_at)));
+    if (buckets.has(key)) buckets.set(key, buckets.get(key)! + getTotalKg(d));
+  }
+
+  return [...buckets].map(([week, kg]) => ({
+    week,
+    label: `${week.slice(8, 10)}/${week.slice(5, 7)}`,
+    kg: Math.round(kg * 10) / 10,
+  }));
+};
+
+/* ------------------------------------------------------------------ */
+/* Séries por período (dashboard)                                      */
+/* ------------------------------------------------------------------ */
+const MONTHS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+const periodStart = (date: Date, granularity: Granularity) =>
+  granularity === 'week' ? startOfWeek(date) : new Date(date.getFullYear(), date.getMonth(), 1);
+
+/** Um bucket vazio por semana/mês do intervalo, em ordem. */
+const emptyPeriods = ({ from, to }: DateRange, granularity: Granularity): PeriodPoint[] => {
+  const periods: PeriodPoint[] = [];
+  const end = parseDay(to);
+  for (let d = periodStart(parseDay(from), granularity); d <= end; ) {
+    const key = toDay(d);
+    periods.push({
+      key,
+      label: granularity === 'week'
+        ? `${key.slice(8, 10)}/${key.slice(5, 7)}`
+        : `${MONTHS[d.getMonth()]}/${String(d.getFullYear()).slice(2)}`,
+    });
+    d = granularity === 'week'
+      ? new Date(d.getFullYear(), d.getMonth(), d.getDate() + 7)
+      : new Date(d.getFullYear(), d.getMonth() + 1, 1);
+  }
+  return periods;
+};
+
+const periodKey = (iso: string, granularity: Granularity) => toDay(periodStart(new Date(iso), granularity));
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Kg coletados por semana ou mês dentro do intervalo. */
+export const getKgSeries = (donations: AdminDonation[], range: DateRange, granularity: Granularity): KgPoint[] => {
+  const series = emptyPeriods(range, granularity).map(p => ({ ...p, kg: 0 }));
+  const byKey = new Map(series.map(p => [p.key, p]));
+
+  for (const d of donations) {
+    if (d.donation_status !== 'picked_up') continue;
+    const point = byKey.get(periodKey(d.picked_up_at ?? d.created_at, granularity));
+    if (point) point.kg += getTotalKg(d);
+  }
+
+  return series.map(p => ({ ...p, kg: round1(p.kg) }));
+};
+
+/** Ofertas aceitas, recusadas e expiradas por período (pela data da resposta). */
+export const getIntentOutcomeSeries = (
+  donations: AdminDonation[],
+  range: DateRange,
+  granularity: Granularity,
+): IntentOutcomePoint[] => {
+  const series = emptyPeriods(range, granularity).map(p => ({ ...p, accepted: 0, denied: 0, expired: 0 }));
+  const byKey = new Map(series.map(p => [p.key, p]));
+
+  for (const intent of donations.flatMap(d => d.donation_intents)) {
+    if (intent.status !== 'accepted' && intent.status !== 'denied' && intent.status !== 'expired') continue;
+    const point = byKey.get(periodKey(intent.updated_at, granularity));
+    if (point) point[intent.status]++;
+  }
+
+  return series;
+};
+
+export const getStatusCounts = (donations: AdminDonation[]) => {
+  const counts = new Map<AdminDonation['donation_status'], number>();
+  for (const d of donations) counts.set(d.donation_status, (counts.get(d.donation_status) ?? 0) + 1);
+  return [...counts].map(([status, count]) => ({ status, count }));
+};
+
+/** Maiores restaurantes ou OSCs por kg coletado. */
+export const getTopByKg = (donations: AdminDonation[], by: 'restaurant' | 'osc', limit = 10): RankedKg[] => {
+  const totals = new Map<string, RankedKg>();
+  for (const d of donations) {
+    if (d.donation_status !== 'picked_up') continue;
+    const id = by === 'restaurant' ? d.restaurant_id : d.osc_id;
+    const name = by === 'restaurant' ? d.restaurant_name : d.osc_name;
+    const entry = totals.get(id) ?? { id, name, kg: 0 };
+    entry.kg += getTotalKg(d);
+    totals.set(id, entry);
+  }
+  return [...totals.values()]
+    .map(e => ({ ...e, kg: round1(e.kg) }))
+    .sort((a, b) => b.kg - a.kg)
+    .slice(0, limit);
+};
+
+/* ------------------------------------------------------------------ */
+/* Formatação                                                          */
+/* ------------------------------------------------------------------ */
+export const formatPercent = (ratio: number | null) =>
+  ratio === null ? '—' : `${Math.round(ratio * 100)}%`;
+
+export const formatDuration = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return m ? `${h}h ${m}min` : `${h}h`;
+};
+
+/* ------------------------------------------------------------------ */
+/* Respostas da OSC                                                    */
+/* ------------------------------------------------------------------ */
+/**
+ * Aceites e recusas nos últimos 30 dias — a mesma janela que o
+ * `cf_match_oscs` usa para compor o score (`accepted_30` / `denied_30`).
+ */
+export const getResponseCounts30 = (
+  intents: Pick<DonationIntent, 'status' | 'updated_at'>[],
+  now = new Date(),
+) => {
+  const since = now.getTime() - 30 * 24 * 60 * 60_000;
+  const recent = intents.filter(i => new Date(i.updated_at).getTime() >= since);
+  return {
+    accepted_30: recent.filter(i => i.status === 'accepted').length,
+    denied_30: recent.filter(i => i.status === 'denied').length,
+  };
+};
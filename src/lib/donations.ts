@@ -0,0 +1,148 @@
+/* ------------------------------------------------------------------ */
+/* Tipos compartilhados das doações (views v_admin_donations*)         */
+/* ------------------------------------------------------------------ */
+export type DonationIntent = {
+  id: string;
+  status: 'waiting_response' | 'accepted' | 'denied' | 'expired' | 're_routed';
+  created_at: string;
+  updated_at: string;
+  expires_at: string | null;
+  reason?: string | null;
+  osc: {
+    id: string;
+    name: string;
+  };
+};
+
+export type PackageInfo = {
+  id: string;
+  quantity: number;
+  total_kg: number;
+  expires_at: string;
+  label_code: string;
+  status: string;
+  item: {
+    id: string;
+    name: string;
+    description: string;
+    category?: string | null; // usada pelos fatores de CO₂e (lib/impact)
+  };
+};
+
+export type AdminDonation = {
+  donation_id: string;
+  donation_status: 'pending' | 'accepted' | 'denied' | 'released' | 'picked_up';
+  created_at: string;
+  pickup_deadline_at: string | null;
+  accepted_at: string | null;
+  released_at: string | null;
+  picked_up_at: string | null;
+  restaurant_id: string;
+  restaurant_name: string;
+  restaurant_email: string;
+  restaurant_phone: string | null;
+  restaurant_city?: string | null;
+  restaurant_uf?: string | null;
+  osc_id: string;
+  osc_name: string;
+  osc_phone: string;
+  osc_email: string | null;
+  distance_km: number;
+  donation_intents: DonationIntent[];
+  packages: PackageInfo[];
+};
+
+export type OSCMatch = {
+  osc_id: string;
+  osc_name: string;
+  city?: string;
+  uf?: string;
+  distance_km: number;
+  accepted_30: number;
+  denied_30: number;
+  score: number;
+};
+
+/* ------------------------------------------------------------------ */
+/* Utils                                                               */
+/* ------------------------------------------------------------------ */
+export const formatKm = (km: number) => {
+  if (!Number.isFinite(km)) return '';
+  return km % 1 === 0 ? `${km} km` : `${km.toFixed(1)} km`;
+};
+
+export const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const getTotalKg = (donation: Pick<AdminDonation, 'packages'>) =>
+  donation.packages.reduce((sum, pkg) => sum + pkg.total_kg, 0);
+
+export const formatHMS = (ms: number) => {
+  if (ms <= 0) return '00:00:00';
+  const totalSec = Math.floor(ms / 1000);
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}`;
+};
+
+export type TimeRemaining = {
+  text: string;
+  color: string;
+  urgent: boolean;
+};
+
+/** Contagem regressiva do prazo de aceite (pending) ou de coleta (accepted). */
+export const getTimeRemaining = (
+  donation: Pick<AdminDonation, 'donation_status' | 'donation_intents' | 'pickup_deadline_at'>,
+  now: Date,
+): TimeRemaining | null => {
+  let diffMs = 0;
+
+  if (donation.donation_status === 'pending') {
+    const waitingIntent = donation.donation_intents.find(i => i.status === 'waiting_response');
+    if (waitingIntent?.expires_at) {
+      diffMs = new Date(waitingIntent.expires_at).getTime() - now.getTime();
+      if (diffMs <= 0) return { text: 'Expirado', color: 'text-red-600', urgent: true };
+      const urgent = diffMs <= 2 * 60 * 60 * 1000; // < 2h
+      return { text: formatHMS(diffMs), color: urgent ? 'text-red-600' : 'text-yellow-600', urgent };
+    }
+  } else if (donation.donation_status === 'accepted' && donation.pickup_deadline_at) {
+    diffMs = new Date(donation.pickup_deadline_at).getTime() - now.getTime();
+    if (diffMs <= 0) return { text: 'Prazo vencido', color: 'text-red-600', urgent: true };
+    const urgent = diffMs <= 4 * 60 * 60 * 1000; // < 4h
+    return { text: formatHMS(diffMs), color: urgent ? 'text-red-600' : 'text-blue-600', urgent };
+  }
+
+  return null;
+};
+
+/** Prazo corrente: expiração da oferta (pending) ou limite de coleta (accepted). */
+export const getDeadline = (
+  donation: Pick<AdminDonation, 'donation_status' | 'donation_intents' | 'pickup_deadline_at'>,
+): string | null => {
+  if (donation.donation_status === 'pending') {
+    return donation.donation_intents.find(i => i.status === 'waiting_response')?.expires_at ?? null;
+  }
+  if (donation.donation_status === 'accepted') return donation.pickup_deadline_at;
+  return null;
+};
+
+export const getPackageExpiryStatus = (pkg: Pick<PackageInfo, 'expires_at'>, now: Date) => {
+  const diffMs = new Date(pkg.expires_at).getTime() - now.getTime();
+  const diffHours = diffMs / (1000 * 60 * 60);
+
+  if (diffMs <= 0) {
+    return { status: 'expired', label: 'Vencido', color: 'bg-red-100 text-red-800' };
+  } else if (diffHours <= 48) {
+    return { status: 'expiring', label: 'Perto de vencer', color: 'bg-yellow-100 text-yellow-800' };
+  }
+  return null;
+};
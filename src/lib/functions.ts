@@ -0,0 +1,44 @@
+import {
+  FunctionsFetchError,
+  FunctionsHttpError,
+  FunctionsRelayError,
+} from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type FunctionErrorStatus = { status: number; message?: string };
+
+/* ------------------------------------------------------------------ */
+/* Invocação de Edge Functions                                         */
+/* ------------------------------------------------------------------ */
+/**
+ * Chama uma Edge Function e normaliza as falhas para `{ status }`, que é o
+ * formato que os modais usam para tratar 409 (duplicidade) e afins.
+ * Erros de rede/relay viram 503.
+ */
+export async function invokeFunction<T>(
+  name: string,
+  body: unknown,
+  accessToken?: string,
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(name, {
+    body: body as Record<string, unknown>,
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const failure: FunctionErrorStatus = { status: error.context.status };
+      throw failure;
+    }
+    if (error instanceof FunctionsRelayError || error instanceof FunctionsFetchError) {
+      const failure: FunctionErrorStatus = { status: 503, message: error.message };
+      throw failure;
+    }
+    throw error;
+  }
+
+  return (data ?? {}) as T;
+}
@@ -0,0 +1,20 @@
+/* ------------------------------------------------------------------ */
+/* Distâncias                                                          */
+/* ------------------------------------------------------------------ */
+export type LatLng = { lat: number; lng: number };
+
+const EARTH_RADIUS_KM = 6371;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Distância em linha reta (haversine), em km. */
+export const haversineKm = (a: LatLng, b: LatLng) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const hasCoords = (e: { lat?: number | null; lng?: number | null }): e is LatLng =>
+  Number.isFinite(e.lat) && Number.isFinite(e.lng);
@@ -0,0 +1,110 @@
+import { AdminDonation, getTotalKg } from './donations';
+
+/* ------------------------------------------------------------------ */
+/* Tipos (tabela impact_factors)                                       */
+/* ------------------------------------------------------------------ */
+/**
+ * Uma versão do modelo de impacto. Versões nunca são editadas: mudar um
+ * fator cria uma versão nova com `valid_from`, e cada coleta usa a versão
+ * vigente na data em que aconteceu — relatórios antigos não mudam.
+ */
+export type ImpactFactors = {
+  id: string;
+  version: number;
+  kg_per_meal: number;
+  /** Refeições que contam como uma pessoa beneficiada; null = não informado. */
+  meals_per_beneficiary: number | null;
+  default_co2e_per_kg: number;
+  co2e_per_kg_by_category: Record<string, number>;
+  valid_from: string; // ISO
+  notes: string | null;
+  created_at: string;
+};
+
+export type ImpactMetrics = {
+  kg: number;
+  meals: number;
+  beneficiaries: number;
+  co2eKg: number;
+  /** Versões de fatores usadas no cálculo, em ordem crescente. */
+  versions: number[];
+};
+
+const EMPTY_IMPACT: ImpactMetrics = { kg: 0, meals: 0, beneficiaries: 0, co2eKg: 0, versions: [] };
+
+/* ------------------------------------------------------------------ */
+/* Cálculo                                                             */
+/* ------------------------------------------------------------------ */
+/** Versão vigente em `date`; antes da primeira versão, usa a primeira. */
+export const factorsAt = (versions: ImpactFactors[], date: string) => {
+  const at = new Date(date).getTime();
+  let current: ImpactFactors | undefined;
+  for (const v of versions) {
+    if (new Date(v.valid_from).getTime() <= at && (!current || v.version > current.version)) current = v;
+  }
+  return current ?? versions.reduce<ImpactFactors | undefined>(
+    (first, v) => (!first || v.version < first.version ? v : first),
+    undefined,
+  );
+};
+
+const co2eFactor = (factors: ImpactFactors, category?: string | null) =>
+  (category ? factors.co2e_per_kg_by_category[category] : undefined) ?? factors.default_co2e_per_kg;
+
+/** Impacto de uma doação coletada, com os fatores da data da coleta. */
+export const getDonationImpact = (donation: AdminDonation, versions: ImpactFactors[]) => {
+  const factors = factorsAt(versions, donation.picked_up_at ?? donation.created_at);
+  const kg = getTotalKg(donation);
+  if (!factors || donation.donation_status !== 'picked_up') {
+    return { kg, meals: 0, beneficiaries: 0, co2eKg: 0, version: factors?.version ?? null };
+  }
+
+  const co2eKg = donation.packages.reduce(
+    (acc, p) => acc + p.total_kg * co2eFactor(factors, p.item.category),
+    0,
+  );
+  const meals = factors.kg_per_meal > 0 ? kg / factors.kg_per_meal : 0;
+  return {
+    kg,
+    meals,
+    beneficiaries: factors.meals_per_beneficiary ? meals / factors.meals_per_beneficiary : 0,
+    co2eKg,
+    version: factors.version,
+  };
+};
+
+/** Soma o impacto das doações coletadas da lista. */
+export const getImpact = (donations: AdminDonation[], versions: ImpactFactors[]): ImpactMetrics => {
+  if (versions.length === 0) return EMPTY_IMPACT;
+
+  const used = new Set<number>();
+  const totals = donations
+    .filter(d => d.donation_status === 'picked_up')
+    .reduce((acc, d) => {
+      const impact = getDonationImpact(d, versions);
+      if (impact.version !== null) used.add(impact.version);
+      return {
+        kg: acc.kg + impact.kg,
+        meals: acc.meals + impact.meals,
+        beneficiaries: acc.beneficiaries + impact.beneficiaries,
+        co2eKg: acc.co2eKg + impact.co2eKg,
+      };
+    }, { kg: 0, meals: 0, beneficiaries: 0, co2eKg: 0 });
+
+  return { ...totals, versions: [...used].sort((a, b) => a - b) };
+};
+
+/* ------------------------------------------------------------------ */
+/* Formatação                                                          */
+/* ------------------------------------------------------------------ */
+export const formatMeals = (meals: number) => Math.floor(meals).toLocaleString('pt-BR');
+
+export const formatBeneficiaries = (people: number) => Math.floor(people).toLocaleString('pt-BR');
+
+export const formatCo2e = (kg: number) =>
+  kg >= 1000
+    ? `${(kg / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} t CO₂e`
+    : `${kg.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} kg CO₂e`;
+
+export const formatVersions = (versions: number[]) =>
+  versions.length === 0 ? '—' : versions.map(v => `v${v}`).join(', ');
@@ -0,0 +1,56 @@
+import { OSCMatch } from './donations';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+/** Carga atual da OSC: quantas parcerias tem e em quantas é a favorita. */
+export type OSCLoad = {
+  partners: number;
+  favoriteOf: number;
+};
+
+export type MatchSort = 'score' | 'distance' | 'acceptance' | 'load' | 'favorites';
+
+export type RankedMatch = {
+  match: OSCMatch;
+  load: OSCLoad | undefined;
+};
+
+export const MATCH_SORT_LABELS: Record<MatchSort, string> = {
+  score: 'Score',
+  distance: 'Menor distância',
+  acceptance: 'Maior taxa de aceite',
+  load: 'Menos parcerias',
+  favorites: 'Menos vezes favorita',
+};
+
+/* ------------------------------------------------------------------ */
+/* Ordenação                                                           */
+/* ------------------------------------------------------------------ */
+/** Taxa de aceite em 30 dias; null quando a OSC não tem histórico. */
+export const acceptanceRate = (match: OSCMatch) => {
+  const answered = match.accepted_30 + match.denied_30;
+  return answered ? match.accepted_30 / answered : null;
+};
+
+/**
+ * Ordena pelos dados brutos das candidatas. A composição do `score` fica no
+ * `cf_match_oscs`, então o cliente não tenta reproduzi-la; empates caem no
+ * score do servidor.
+ */
+export const compareMatches = (sort: MatchSort) => (a: RankedMatch, b: RankedMatch) => {
+  const byScore = b.match.score - a.match.score;
+  switch (sort) {
+    case 'score':
+      return byScore;
+    case 'distance':
+      return a.match.distance_km - b.match.distance_km || byScore;
+    case 'acceptance':
+      // Sem histórico vai para o fim
+      return (acceptanceRate(b.match) ?? -1) - (acceptanceRate(a.match) ?? -1) || byScore;
+    case 'load':
+      return (a.load?.partners ?? 0) - (b.load?.partners ?? 0) || byScore;
+    case 'favorites':
+      return (a.load?.favoriteOf ?? 0) - (b.load?.favoriteOf ?? 0) || byScore;
+  }
+};
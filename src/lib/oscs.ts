@@ -0,0 +1,22 @@
+/* ------------------------------------------------------------------ */
+/* Tipos (tabela osc)                                                  */
+/* ------------------------------------------------------------------ */
+export interface OSC {
+  id: string;
+  name: string;
+  cnpj?: string;
+  email?: string;
+  phone: string;
+  responsible_name?: string;
+  street?: string;
+  number?: string;
+  city?: string;
+  uf?: string;
+  cep?: string;
+  lat?: number | null;
+  lng?: number | null;
+  status: 'active' | 'inactive' | 'invite_sent';
+  invite_sent_at?: string | null;
+  added_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,75 @@
+import { DateRange } from './donationStats';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type PeriodPreset = 'today' | '7d' | '30d' | 'ytd' | 'custom';
+
+export const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
+  { value: 'today', label: 'Hoje' },
+  { value: '7d', label: '7 dias' },
+  { value: '30d', label: '30 dias' },
+  { value: 'ytd', label: 'No ano' },
+  { value: 'custom', label: 'Personalizado' },
+];
+
+/* ------------------------------------------------------------------ */
+/* Datas                                                               */
+/* ------------------------------------------------------------------ */
+export const toDay = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const parseDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (day: string, days: number) => {
+  const d = parseDay(day);
+  d.setDate(d.getDate() + days);
+  return toDay(d);
+};
+
+export const lastDays = (days: number, now = new Date()): DateRange => {
+  const to = toDay(now);
+  return { from: addDays(to, -(days - 1)), to };
+};
+
+/** Intervalo (em dias locais) de um preset; `custom` usa o intervalo informado. */
+export const resolvePeriod = (preset: PeriodPreset, custom: DateRange, now = new Date()): DateRange => {
+  switch (preset) {
+    case 'today': return lastDays(1, now);
+    case '7d': return lastDays(7, now);
+    case '30d': return lastDays(30, now);
+    case 'ytd': return { from: `${now.getFullYear()}-01-01`, to: toDay(now) };
+    case 'custom': return custom;
+  }
+};
+
+/** Período de mesmo tamanho imediatamente anterior, para comparação. */
+export const previousRange = ({ from, to }: DateRange): DateRange => {
+  const length = Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86_400_000) + 1;
+  const prevTo = addDays(from, -1);
+  return { from: addDays(prevTo, -(length - 1)), to: prevTo };
+};
+
+/** Limites em ISO (início do primeiro dia, fim do último) para filtros e RPCs. */
+export const rangeBounds = ({ from, to }: DateRange) => ({
+  from: new Date(`${from}T00:00:00`).toISOString(),
+  to: new Date(`${to}T23:59:59.999`).toISOString(),
+});
+
+export const isInRange = (iso: string, range: DateRange) => {
+  const bounds = rangeBounds(range);
+  const at = new Date(iso).getTime();
+  return at >= new Date(bounds.from).getTime() && at <= new Date(bounds.to).getTime();
+};
+
+export const formatRange = ({ from, to }: DateRange) => {
+  const fmt = (day: string) => `${day.slice(8, 10)}/${day.slice(5, 7)}/${day.slice(0, 4)}`;
+  return from === to ? fmt(from) : `${fmt(from)} a ${fmt(to)}`;
+};
+
+/** Variação relativa; null quando não há base de comparação. */
+export const getDelta = (current: number, previous: number) =>
+  previous === 0 ? (current === 0 ? 0 : null) : (current - previous) / previous;
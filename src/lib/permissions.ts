@@ -0,0 +1,28 @@
+/* ------------------------------------------------------------------ */
+/* Papéis e permissões                                                 */
+/* ------------------------------------------------------------------ */
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export type Permission =
+  | 'entities.manage' // criar, editar, importar, ativar/desativar restaurantes e OSCs
+  | 'partnerships.manage' // criar, favoritar e remover parcerias
+  | 'donations.manage' // redirecionar doações
+  | 'impact.manage'; // publicar versões dos fatores de impacto
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Leitura',
+  operator: 'Operação',
+  admin: 'Administrador',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  operator: ['partnerships.manage', 'donations.manage'],
+  admin: ['entities.manage', 'partnerships.manage', 'donations.manage', 'impact.manage'],
+};
+
+/** Espelha as regras do servidor só para a UI — quem decide é o backend. */
+export const roleCan = (role: Role | null, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const NO_PERMISSION_MESSAGE = 'Você não tem permissão para esta ação';
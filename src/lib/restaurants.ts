@@ -0,0 +1,39 @@
+/* ------------------------------------------------------------------ */
+/* Tipos (v_restaurants_partners)                                      */
+/* ------------------------------------------------------------------ */
+export interface Partnership {
+  created_at: string;
+  is_favorite: boolean;
+  distance_km: number;
+  osc: {
+    id: string;
+    name: string;
+    street?: string;
+    number?: string;
+    city?: string;
+    uf?: string;
+  };
+}
+
+export interface RestaurantWithPartners {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  cnpj: string | null;
+  code: string | null;
+  address_full: string | null;
+  street: string | null;
+  number: string | null;
+  city: string | null;
+  uf: string | null;
+  cep: string | null;
+  lat: number;
+  lng: number;
+  status: 'active' | 'inactive' | 'invite_sent';
+  invite_sent_at: string | null;
+  added_at: string;
+  updated_at: string;
+  partnerships: Partnership[];
+}
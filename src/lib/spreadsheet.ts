@@ -0,0 +1,124 @@
+import readXlsxFile from 'read-excel-file';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+export type SheetRow = Record<string, string>;
+
+/* ------------------------------------------------------------------ */
+/* Helpers                                                             */
+/* ------------------------------------------------------------------ */
+/** "E-mail do Proprietário" → "emaildoproprietario" */
+export const normalizeHeader = (h: string) =>
+  h
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parser de CSV com suporte a aspas e delimitador `,` ou `;` (o Excel em
+ * pt-BR exporta com ponto e vírgula). O delimitador é detectado na 1ª linha.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows
+    .map(r => r.map(cell => {
+      const v = String(cell ?? '');
+      return /[",;\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+    }).join(';'))
+    .join('\n');
+
+export const downloadCsv = (filename: string, rows: (string | number)[][]) => {
+  // BOM para o Excel abrir acentos corretamente
+  const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/* ------------------------------------------------------------------ */
+/* Leitura de arquivo                                                  */
+/* ------------------------------------------------------------------ */
+// Documentos que o Excel guarda como número perdem os zeros à esquerda
+// (CEP 01310-100 vira 1310100); o tamanho fixo permite recompor
+const ZERO_PADDED_COLUMNS: Record<string, number> = { cep: 8, cnpj: 14 };
+
+const readXlsxMatrix = (raw: unknown[][]): string[][] => {
+  const keys = (raw[0] ?? []).map(cell => normalizeHeader(String(cell ?? '')));
+  return raw.map((r, rowIndex) =>
+    r.map((cell, i) => {
+      if (cell instanceof Date) return cell.toISOString();
+      const width = ZERO_PADDED_COLUMNS[keys[i]];
+      if (rowIndex > 0 && width && typeof cell === 'number') return String(cell).padStart(width, '0');
+      return String(cell ?? '');
+    }),
+  );
+};
+
+/**
+ * Lê um CSV ou XLSX e devolve uma linha por registro, indexada pelos
+ * cabeçalhos normalizados (ver `normalizeHeader`).
+ */
+export async function readSpreadsheet(file: File): Promise<SheetRow[]> {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const matrix = isXlsx ? readXlsxMatrix(await readXlsxFile(file)) : parseCsv(await file.text());
+
+  const [header, ...body] = matrix;
+  if (!header) return [];
+  const keys = header.map(normalizeHeader);
+
+  return body
+    .filter(r => r.some(cell => cell.trim() !== ''))
+    .map(r => Object.fromEntries(keys.map((k, i) => [k, (r[i] ?? '').trim()])));
+}
+
+/** Primeiro valor preenchido entre os cabeçalhos aceitos para um campo. */
+export const pickColumn = (row: SheetRow, aliases: string[]) =>
+  aliases.map(normalizeHeader).map(a => row[a]).find(v => v !== undefined && v !== '') ?? '';
@@ -7,4 +7,23 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Lê todas as linhas de uma consulta em lotes via `.range`: o PostgREST corta
+ * respostas grandes no max-rows sem avisar. A consulta precisa de uma ordem
+ * estável para os lotes não se sobreporem.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,43 @@
+/* ------------------------------------------------------------------ */
+/* Validações de documentos e contato                                  */
+/* ------------------------------------------------------------------ */
+export const onlyDigits = (v: string) => v.replace(/\D/g, '');
+
+export const EMAIL_PATTERN = /^[\w.%+-]+@[\w.-]+\.[A-Za-z]{2,}$/i;
+
+export const isValidEmail = (v: string) => EMAIL_PATTERN.test(v.trim());
+
+export const isValidCep = (v: string) => onlyDigits(v).length === 8;
+
+/** Telefone brasileiro com DDD: 10 (fixo) ou 11 (celular) dígitos. */
+export const isValidPhone = (v: string) => {
+  const digits = onlyDigits(v).replace(/^55(?=\d{10,11}$)/, '');
+  return digits.length === 10 || digits.length === 11;
+};
+
+/** CNPJ com dígitos verificadores válidos (aceita com ou sem máscara). */
+export const isValidCnpj = (v: string) => {
+  const digits = onlyDigits(v);
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+
+  const checkDigit = (base: string) => {
+    const weights = base.length === 12
+      ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+      : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = base.split('').reduce((acc, d, i) => acc + Number(d) * weights[i], 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  const first = checkDigit(digits.slice(0, 12));
+  const second = checkDigit(digits.slice(0, 12) + first);
+  return digits.endsWith(`${first}${second}`);
+};
+
+export const formatCnpj = (v: string) =>
+  onlyDigits(v)
+    .slice(0, 14)
+    .replace(/^(\d{2})(\d)/, '$1.$2')
+    .replace(/^(\d{2})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d)/, '.$1/$2')
+    .replace(/(\d{4})(\d)/, '$1-$2');
@@ -0,0 +1,287 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Radar } from 'lucide-react';
+import { useRestaurants } from '../hooks/useRestaurants';
+import { useOSCs } from '../hooks/useOSCs';
+import { formatKm } from '../lib/donations';
+import { hasCoords, haversineKm } from '../lib/geo';
+import { RestaurantWithPartners } from '../lib/restaurants';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+type RestaurantGap = {
+  restaurant: RestaurantWithPartners;
+  partnerCount: number;
+  nearest: { id: string; name: string; km: number } | null;
+};
+
+type RegionSupply = {
+  key: string;
+  city: string;
+  uf: string;
+  restaurants: number;
+  oscs: number;
+  ratio: number;
+};
+
+/* ------------------------------------------------------------------ */
+/* Utils                                                               */
+/* ------------------------------------------------------------------ */
+const DEFAULT_RADIUS_KM = 10;
+const DEFAULT_RATIO = 3;
+
+const regionKey = (city?: string | null, uf?: string | null) =>
+  `${(city ?? '').trim().toLowerCase()}|${(uf ?? '').trim().toUpperCase()}`;
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function Coverage() {
+  const { data: restaurants, isLoading: loadingRestaurants } = useRestaurants();
+  const { data: oscs, isLoading: loadingOSCs } = useOSCs();
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+  const [maxRatio, setMaxRatio] = useState(DEFAULT_RATIO);
+  const [onlyOutside, setOnlyOutside] = useState(false);
+
+  /* ------------------ restaurantes com 0 ou 1 parceria ---------------- */
+  const gaps = useMemo<RestaurantGap[]>(() => {
+    const activeOSCs = (oscs ?? []).filter(o => o.status === 'active' && hasCoords(o));
+
+    return (restaurants ?? [])
+      .filter(r => r.status === 'active' && (r.partnerships?.length ?? 0) <= 1)
+      .map(r => {
+        // A OSC mais próxima que ainda não é parceira
+        const partnerIds = new Set((r.partnerships ?? []).map(p => p.osc.id));
+        let nearest: RestaurantGap['nearest'] = null;
+        if (hasCoords(r)) {
+          for (const o of activeOSCs) {
+            if (partnerIds.has(o.id)) continue;
+            const km = haversineKm(r, { lat: o.lat!, lng: o.lng! });
+            if (!nearest || km < nearest.km) nearest = { id: o.id, name: o.name, km };
+          }
+        }
+        return { restaurant: r, partnerCount: r.partnerships?.length ?? 0, nearest };
+      })
+      .sort((a, b) =>
+        a.partnerCount - b.partnerCount ||
+        ((b.nearest?.km ?? Infinity) - (a.nearest?.km ?? Infinity) || 0),
+      );
+  }, [restaurants, oscs]);
+
+  /* --------------------- oferta x capacidade por cidade ---------------- */
+  const regions = useMemo<RegionSupply[]>(() => {
+    const byKey = new Map<string, RegionSupply>();
+    const bump = (city: string | null | undefined, uf: string | null | undefined, field: 'restaurants' | 'oscs') => {
+      if (!city && !uf) return;
+      const key = regionKey(city, uf);
+      const region = byKey.get(key) ?? { key, city: city ?? '—', uf: uf ?? '—', restaurants: 0, oscs: 0, ratio: 0 };
+      region[field]++;
+      byKey.set(key, region);
+    };
+
+    (restaurants ?? []).filter(r => r.status === 'active').forEach(r => bump(r.city, r.uf, 'restaurants'));
+    (oscs ?? []).filter(o => o.status === 'active').forEach(o => bump(o.city, o.uf, 'oscs'));
+
+    return [...byKey.values()]
+      .map(r => ({ ...r, ratio: r.oscs ? r.restaurants / r.oscs : Infinity }))
+      .filter(r => r.restaurants > 0)
+      .sort((a, b) => b.ratio - a.ratio || b.restaurants - a.restaurants);
+  }, [restaurants, oscs]);
+
+  const isOutside = (g: RestaurantGap) => !g.nearest || g.nearest.km > radiusKm;
+  const visibleGaps = onlyOutside ? gaps.filter(isOutside) : gaps;
+  const outsideCount = gaps.filter(isOutside).length;
+  const criticalRegions = regions.filter(r => r.ratio > maxRatio);
+
+  const inputClass =
+    'w-20 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  if (loadingRestaurants || loadingOSCs) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full bg-gray-50 p-6">
+      {/* ---------- HEADER ---------- */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Radar className="h-7 w-7 mr-3 text-blue-600" />
+          Cobertura
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Onde faltam OSCs para atender os restaurantes — use para priorizar a captação
+        </p>
+      </div>
+
+      {/* ---------- PARÂMETROS ---------- */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6 flex flex-wrap items-center gap-6 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Raio de atendimento
+          <input
+            type="number"
+            min={1}
+            value={radiusKm}
+            onChange={(e) => setRadiusKm(Math.max(1, Number(e.target.value) || DEFAULT_RADIUS_KM))}
+            className={inputClass}
+          />
+          km
+        </label>
+        <label className="flex items-center gap-2">
+          Alerta acima de
+          <input
+            type="number"
+            min={1}
+            step={0.5}
+            value={maxRatio}
+            onChange={(e) => setMaxRatio(Math.max(1, Number(e.target.value) || DEFAULT_RATIO))}
+            className={inputClass}
+          />
+          restaurantes por OSC
+        </label>
+      </div>
+
+      {/* ---------- RESUMO ---------- */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <SummaryCard label="Restaurantes com 0 ou 1 parceria" value={gaps.length} />
+        <SummaryCard label={`Sem OSC livre em ${radiusKm} km`} value={outsideCount} highlight={outsideCount > 0} />
+        <SummaryCard label="Cidades com falta de OSCs" value={criticalRegions.length} highlight={criticalRegions.length > 0} />
+      </div>
+
+      {/* ---------- OFERTA x CAPACIDADE ---------- */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-6">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Restaurantes x OSCs por cidade</h2>
+          <p className="text-sm text-gray-500">Considera apenas cadastros ativos</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Cidade', 'Restaurantes', 'OSCs', 'Restaurantes por OSC'].map(h => (
+                  <th key={h} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {regions.map(r => {
+                const critical = r.ratio > maxRatio;
+                return (
+                  <tr key={r.key} className={critical ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      <span className="inline-flex items-center">
+                        {critical && <AlertTriangle className="h-4 w-4 mr-2 text-red-500" />}
+                        {r.city}/{r.uf}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{r.restaurants}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{r.oscs}</td>
+                    <td className={`px-6 py-3 text-sm font-medium ${critical ? 'text-red-600' : 'text-gray-700'}`}>
+                      {Number.isFinite(r.ratio) ? r.ratio.toFixed(1) : 'Nenhuma OSC'}
+                    </td>
+                  </tr>
+                );
+              })}
+              {regions.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                    Nenhum restaurante ativo cadastrado
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* ---------- RESTAURANTES DESCOBERTOS ---------- */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Restaurantes com poucas parcerias</h2>
+            <p className="text-sm text-gray-500">Distância em linha reta até a OSC ativa mais próxima que ainda não é parceira</p>
+          </div>
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={onlyOutside}
+              onChange={(e) => setOnlyOutside(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+            />
+            Só fora do raio
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Restaurante', 'Cidade', 'Parcerias', 'OSC mais próxima', 'Distância'].map(h => (
+                  <th key={h} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleGaps.map(g => {
+                const outside = isOutside(g);
+                return (
+                  <tr key={g.restaurant.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 text-sm">
+                      <Link to={`/restaurants/${g.restaurant.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                        {g.restaurant.name}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700">
+                      {g.restaurant.city ? `${g.restaurant.city}/${g.restaurant.uf}` : '—'}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{g.partnerCount}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">
+                      {g.nearest ? (
+                        <Link to={`/oscs/${g.nearest.id}`} className="hover:text-blue-600">{g.nearest.name}</Link>
+                      ) : '—'}
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                          outside ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                        }`}
+                      >
+                        {g.nearest ? formatKm(g.nearest.km) : 'Sem OSC disponível'}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+              {visibleGaps.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                    {onlyOutside
+                      ? `Todos têm uma OSC disponível em até ${radiusKm} km`
+                      : 'Todos os restaurantes ativos têm pelo menos duas parcerias'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const SummaryCard = ({ label, value, highlight }: { label: string; value: number; highlight?: boolean }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className={`mt-1 text-2xl font-bold ${highlight ? 'text-red-600' : 'text-gray-900'}`}>{value}</p>
+  </div>
+);
@@ -1,16 +1,34 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { 
   Users, 
   Building2, 
   Heart, 
-  Calendar,
-  TrendingUp,
-  CheckCircle,
-  XCircle,
-  Package
+  BarChart3,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { usePeriod } from '../hooks/usePeriod';
+import { usePeriodComparison } from '../hooks/usePeriodComparison';
+import { isInRange, rangeBounds } from '../lib/period';
+import { AdminDonation } from '../lib/donations';
+import {
+  DateRange,
+  Granularity,
+  getIntentOutcomeSeries,
+  getKgSeries,
+  getStatusCounts,
+  getTopByKg,
+} from '../lib/donationStats';
+import { PeriodSelector } from '../components/PeriodSelector';
+import { ImpactSummary } from '../components/ImpactSummary';
+import { DeltaBadge } from '../components/DeltaBadge';
+import { ActivityFeed } from '../components/ActivityFeed';
+import {
+  IntentOutcomeChart,
+  KgOverTimeChart,
+  StatusChart,
+  TopKgChart,
+} from '../components/DashboardCharts';
 
 /* ------------------------------------------------------------------ */
 /* Tipos                                                               */
@@ -21,10 +39,11 @@ type AdminCounters = {
   total_partnerships: number;
 };
 
-type FeedItem = {
-  event_at: string;  // ISO
-  event_type: 'new_partnership' | 'donation_accepted' | 'donation_denied' | 'donation_picked_up';
-  description: string;
+// Cadastros criados dentro do período (RPC admin_counters_period)
+type PeriodCounters = {
+  new_restaurants: number;
+  new_oscs: number;
+  new_partnerships: number;
 };
 
 /* ------------------------------------------------------------------ */
@@ -45,18 +64,38 @@ function useAdminCounters() {
   });
 }
 
-function useAdminFeed() {
-  return useQuery<FeedItem[]>({
-    queryKey: ['admin', 'feed'],
+function usePeriodCounters() {
+  return usePeriodComparison<PeriodCounters>(['admin', 'counters', 'period'], async ({ from, to }) => {
+    const { data, error } = await supabase
+      .rpc('admin_counters_period', { p_from: from, p_to: to })
+      .single();
+    if (error) throw error;
+    return data as PeriodCounters;
+  });
+}
+
+// Doações criadas ou coletadas no período: os gráficos de kg agrupam pela
+// coleta, os de status pela criação. Fica sob ['admin', 'donations-history']
+// para ser invalidada pelo Realtime.
+function useDashboardDonations(range: DateRange) {
+  return useQuery<AdminDonation[]>({
+    queryKey: ['admin', 'donations-history', 'dashboard', range.from, range.to],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('v_admin_recent_activity')
-        .select('*')
-        .order('event_at', { ascending: false });
-      if (error) throw error;
-      return data;
+      const bounds = rangeBounds(range);
+      return fetchAllRows<AdminDonation>((from, to) =>
+        supabase
+          .from('v_admin_donations')
+          .select('*')
+          .or(
+            `and(created_at.gte."${bounds.from}",created_at.lte."${bounds.to}"),` +
+            `and(picked_up_at.gte."${bounds.from}",picked_up_at.lte."${bounds.to}")`,
+          )
+          .order('created_at')
+          .order('donation_id')
+          .range(from, to),
+      );
     },
-    staleTime: 30_000,
+    staleTime: 60_000,
   });
 }
 
@@ -65,7 +104,26 @@ function useAdminFeed() {
 /* ------------------------------------------------------------------ */
 export function Dashboard() {
   const { data: counters, isLoading: loadingCounters } = useAdminCounters();
-  const { data: feed, isLoading: loadingFeed } = useAdminFeed();
+  const { data: period } = usePeriodCounters();
+  const { range } = usePeriod();
+  const [granularity, setGranularity] = useState<Granularity>('week');
+  const { data: donations, isLoading: loadingDonations } = useDashboardDonations(range);
+
+  const charts = useMemo(() => {
+    const list = donations ?? [];
+    const created = list.filter(d => isInRange(d.created_at, range));
+    const pickedUp = list.filter(
+      d => d.donation_status === 'picked_up' && isInRange(d.picked_up_at ?? d.created_at, range),
+    );
+    return {
+      pickedUp,
+      kg: getKgSeries(pickedUp, range, granularity),
+      status: getStatusCounts(created),
+      intents: getIntentOutcomeSeries(list, range, granularity),
+      topRestaurants: getTopByKg(pickedUp, 'restaurant'),
+      topOSCs: getTopByKg(pickedUp, 'osc'),
+    };
+  }, [donations, range, granularity]);
 
   if (loadingCounters) {
     return (
@@ -79,63 +137,96 @@ export function Dashboard() {
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-full mx-auto">
         {/* ---------- HEADER ---------- */}
-        <div className="mb-8">
-          <div className="mb-4">
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Bem-vindo, Administrador! 👋</h1>
             <p className="text-lg text-gray-600">
               Aqui está um resumo da sua plataforma Connecting Food
             </p>
           </div>
+          <PeriodSelector />
         </div>
 
         {/* ---------- STAT CARDS ---------- */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <StatCard
             icon={<Users className="h-8 w-8 text-blue-600" />}
-            label="Total de Restaurantes"
-            value={counters?.total_restaurants ?? 0}
+            label="Novos Restaurantes"
+            value={period?.current.new_restaurants ?? 0}
+            subtitle={`${(counters?.total_restaurants ?? 0).toLocaleString()} no total`}
+            delta={period && <DeltaBadge current={period.current.new_restaurants} previous={period.previous.new_restaurants} />}
             bgColor="bg-blue-100"
             textColor="text-blue-600"
           />
           <StatCard
             icon={<Building2 className="h-8 w-8 text-green-600" />}
-            label="Total de OSCs"
-            value={counters?.total_oscs ?? 0}
+            label="Novas OSCs"
+            value={period?.current.new_oscs ?? 0}
+            subtitle={`${(counters?.total_oscs ?? 0).toLocaleString()} no total`}
+            delta={period && <DeltaBadge current={period.current.new_oscs} previous={period.previous.new_oscs} />}
             bgColor="bg-green-100"
             textColor="text-green-600"
           />
           <StatCard
             icon={<Heart className="h-8 w-8 text-red-600" />}
-            label="Total de Parcerias"
-            value={counters?.total_partnerships ?? 0}
+            label="Novas Parcerias"
+            value={period?.current.new_partnerships ?? 0}
+            subtitle={`${(counters?.total_partnerships ?? 0).toLocaleString()} no total`}
+            delta={period && <DeltaBadge current={period.current.new_partnerships} previous={period.previous.new_partnerships} />}
             bgColor="bg-red-100"
             textColor="text-red-600"
           />
         </div>
 
-        {/* ---------- FEED DE ATIVIDADES ---------- */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <div className="flex items-center">
-              <Calendar className="h-5 w-5 text-blue-600 mr-2" />
-              <h2 className="text-lg font-semibold text-gray-900">Atividades Recentes</h2>
+        {/* ---------- INDICADORES DO PERÍODO ---------- */}
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <BarChart3 className="h-5 w-5 text-blue-600 mr-2" />
+              Indicadores do período
+            </h2>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={granularity}
+                onChange={(e) => setGranularity(e.target.value as Granularity)}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-gray-700"
+              >
+                <option value="week">Por semana</option>
+                <option value="month">Por mês</option>
+              </select>
             </div>
           </div>
 
-          <div className="divide-y divide-gray-200">
-            {loadingFeed ? (
-              <div className="flex items-center justify-center py-12">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+          {loadingDonations ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="lg:col-span-2">
+                <ImpactSummary donations={charts.pickedUp} />
               </div>
-            ) : feed && feed.length > 0 ? (
-              feed.map((item, index) => (
-                <FeedItemComponent key={index} item={item} />
-              ))
-            ) : (
-              <EmptyFeedState />
-            )}
-          </div>
+              <ChartCard title="Kg coletados">
+                <KgOverTimeChart data={charts.kg} />
+              </ChartCard>
+              <ChartCard title="Doações por status">
+                <StatusChart data={charts.status} />
+              </ChartCard>
+              <ChartCard title="Respostas das OSCs" className="lg:col-span-2">
+                <IntentOutcomeChart data={charts.intents} />
+              </ChartCard>
+              <ChartCard title="Top 10 restaurantes por kg">
+                <TopKgChart data={charts.topRestaurants} color="#2563eb" />
+              </ChartCard>
+              <ChartCard title="Top 10 OSCs por kg">
+                <TopKgChart data={charts.topOSCs} color="#16a34a" />
+              </ChartCard>
+            </div>
+          )}
         </div>
+
+        {/* ---------- FEED DE ATIVIDADES ---------- */}
+        <ActivityFeed />
       </div>
     </div>
   );
@@ -148,12 +239,16 @@ const StatCard = ({
   icon,
   label,
   value,
+  subtitle,
+  delta,
   bgColor,
   textColor,
 }: {
   icon: React.ReactNode;
   label: string;
   value: number;
+  subtitle?: string;
+  delta?: React.ReactNode;
   bgColor: string;
   textColor: string;
 }) => (
@@ -164,94 +259,27 @@ const StatCard = ({
       </div>
       <div className="ml-4">
         <p className="text-sm font-medium text-gray-500">{label}</p>
-        <p className="text-2xl font-bold text-gray-900">{value.toLocaleString()}</p>
+        <div className="flex items-baseline space-x-2">
+          <p className="text-2xl font-bold text-gray-900">{value.toLocaleString()}</p>
+          {delta}
+        </div>
+        {subtitle && <p className="text-sm text-gray-600">{subtitle}</p>}
       </div>
     </div>
   </div>
 );
 
-const FeedItemComponent = ({ item }: { item: FeedItem }) => {
-  const getEventIcon = (eventType: FeedItem['event_type']) => {
-    switch (eventType) {
-      case 'new_partnership':
-        return <Heart className="h-5 w-5 text-blue-500" />;
-      case 'donation_accepted':
-        return <CheckCircle className="h-5 w-5 text-green-500" />;
-      case 'donation_denied':
-        return <XCircle className="h-5 w-5 text-red-500" />;
-      case 'donation_picked_up':
-        return <Package className="h-5 w-5 text-purple-500" />;
-      default:
-        return <Calendar className="h-5 w-5 text-gray-500" />;
-    }
-  };
-
-  const getEventColor = (eventType: FeedItem['event_type']) => {
-    switch (eventType) {
-      case 'new_partnership':
-        return 'bg-blue-50 border-blue-200';
-      case 'donation_accepted':
-        return 'bg-green-50 border-green-200';
-      case 'donation_denied':
-        return 'bg-red-50 border-red-200';
-      case 'donation_picked_up':
-        return 'bg-purple-50 border-purple-200';
-      default:
-        return 'bg-gray-50 border-gray-200';
-    }
-  };
-
-  const formatEventTime = (isoString: string) => {
-    const date = new Date(isoString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    const diffDays = Math.floor(diffHours / 24);
-
-    if (diffHours < 1) {
-      const diffMinutes = Math.floor(diffMs / (1000 * 60));
-      return `${diffMinutes}min atrás`;
-    } else if (diffHours < 24) {
-      return `${diffHours}h atrás`;
-    } else if (diffDays < 7) {
-      return `${diffDays}d atrás`;
-    } else {
-      return date.toLocaleDateString('pt-BR', {
-        day: '2-digit',
-        month: '2-digit',
-        year: 'numeric',
-      });
-    }
-  };
-
-  return (
-    <div className="px-6 py-4 hover:bg-gray-50 transition-colors">
-      <div className="flex items-start space-x-4">
-        <div className={`flex-shrink-0 w-10 h-10 rounded-full border-2 ${getEventColor(item.event_type)} flex items-center justify-center`}>
-          {getEventIcon(item.event_type)}
-        </div>
-        <div className="flex-1 min-w-0">
-          <p className="text-sm text-gray-900 leading-relaxed">
-            {item.description}
-          </p>
-          <div className="mt-1 flex items-center text-xs text-gray-500">
-            <Calendar className="h-3 w-3 mr-1" />
-            {formatEventTime(item.event_at)}
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-const EmptyFeedState = () => (
-  <div className="text-center py-16">
-    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-      <TrendingUp className="w-8 h-8 text-gray-400" />
-    </div>
-    <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhuma atividade recente</h3>
-    <p className="text-gray-500 max-w-sm mx-auto">
-      As atividades da plataforma aparecerão aqui conforme acontecem.
-    </p>
+const ChartCard = ({
+  title,
+  className = '',
+  children,
+}: {
+  title: string;
+  className?: string;
+  children: React.ReactNode;
+}) => (
+  <div className={`bg-white rounded-xl shadow-sm p-6 border border-gray-200 ${className}`}>
+    <h3 className="text-sm font-medium text-gray-900 mb-4">{title}</h3>
+    {children}
   </div>
-);
\ No newline at end of file
+);
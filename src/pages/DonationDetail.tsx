@@ -0,0 +1,290 @@
+import { useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Calendar,
+  CheckCircle,
+  Clock,
+  Copy,
+  Package,
+  Scale,
+  Timer,
+  TrendingUp,
+  Truck,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import {
+  IntentTimeline,
+  OSCInfo,
+  PackageItem,
+  RestaurantInfo,
+  StatusBadge,
+} from '../components/DonationCard';
+import { RedirectModal } from '../components/RedirectModal';
+import { useAuth } from '../hooks/useAuth';
+import { useNow } from '../hooks/useNow';
+import {
+  AdminDonation,
+  formatDateTime,
+  formatKm,
+  getTimeRemaining,
+  getTotalKg,
+} from '../lib/donations';
+
+/* ------------------------------------------------------------------ */
+/* Hooks                                                               */
+/* ------------------------------------------------------------------ */
+function useDonation(donationId: string | undefined) {
+  return useQuery<AdminDonation | null>({
+    queryKey: ['admin', 'donation', donationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('v_admin_donations')
+        .select('*')
+        .eq('donation_id', donationId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!donationId,
+    staleTime: 30_000,
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function DonationDetail() {
+  const { donationId } = useParams<{ donationId: string }>();
+  const { data: donation, isLoading } = useDonation(donationId);
+  const now = useNow(1000);
+  const { can } = useAuth();
+  const [showRedirectModal, setShowRedirectModal] = useState(false);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (!donation) {
+    return <DonationNotFound />;
+  }
+
+  const timeInfo = getTimeRemaining(donation, now);
+  const totalKg = getTotalKg(donation);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copiado!');
+    } catch {
+      toast.error('Não foi possível copiar o link');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-full mx-auto">
+        {/* ---------- HEADER ---------- */}
+        <Link
+          to="/donations"
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-3"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Doações
+        </Link>
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <div className="flex items-center space-x-3 mb-2">
+              <h1 className="text-3xl font-bold text-gray-900">
+                Doação #{donation.donation_id.slice(-8)}
+              </h1>
+              <StatusBadge status={donation.donation_status} />
+            </div>
+            <p className="text-sm text-gray-500 font-mono">{donation.donation_id}</p>
+          </div>
+          <button
+            onClick={copyLink}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copiar link
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* ---------- COLUNA PRINCIPAL ---------- */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Prazo */}
+            {timeInfo && (
+              <div className={`rounded-xl p-6 border ${
+                timeInfo.urgent ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+              }`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <Timer className={`h-6 w-6 ${timeInfo.color}`} />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {donation.donation_status === 'pending'
+                          ? 'Tempo restante para a OSC aceitar'
+                          : 'Tempo restante para OSC retirar'}
+                      </p>
+                      {donation.pickup_deadline_at && donation.donation_status === 'accepted' && (
+                        <p className="text-xs text-gray-600">
+                          Prazo de coleta: {formatDateTime(donation.pickup_deadline_at)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <span className={`text-3xl font-bold font-mono ${timeInfo.color}`}>
+                    {timeInfo.text}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {/* Contatos */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-medium text-gray-900 mb-4">Restaurante e OSC</h2>
+              <div className="flex items-center space-x-4">
+                <RestaurantInfo
+                  name={donation.restaurant_name}
+                  email={donation.restaurant_email}
+                  phone={donation.restaurant_phone}
+                />
+                <div className="flex-shrink-0 flex flex-col items-center">
+                  <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center mb-1">
+                    <TrendingUp className="h-4 w-4 text-blue-600" />
+                  </div>
+                  {donation.distance_km !== null && donation.distance_km !== undefined && (
+                    <span className="text-xs text-gray-500">{formatKm(donation.distance_km)}</span>
+                  )}
+                </div>
+                <OSCInfo
+                  name={donation.osc_name}
+                  email={donation.osc_email}
+                  phone={donation.osc_phone}
+                />
+              </div>
+            </div>
+
+            {/* Histórico */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <Clock className="h-4 w-4 mr-2 text-blue-500" />
+                Histórico da Doação ({donation.donation_intents.length} oferta(s))
+              </h2>
+              <IntentTimeline intents={donation.donation_intents} />
+
+              {donation.donation_status === 'pending' && can('donations.manage') && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <button
+                    onClick={() => setShowRedirectModal(true)}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                  >
+                    <TrendingUp className="h-4 w-4 mr-2" />
+                    Gostaria de redirecionar essa doação?
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* ---------- COLUNA LATERAL ---------- */}
+          <div className="space-y-6">
+            {/* Linha do tempo */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <Calendar className="h-4 w-4 mr-2 text-blue-500" />
+                Datas
+              </h2>
+              <dl className="space-y-3">
+                <TimestampRow icon={<Package className="h-4 w-4 text-gray-400" />} label="Criada em" value={donation.created_at} />
+                <TimestampRow icon={<CheckCircle className="h-4 w-4 text-green-500" />} label="Aceita em" value={donation.accepted_at} />
+                <TimestampRow icon={<Timer className="h-4 w-4 text-yellow-500" />} label="Prazo de coleta" value={donation.pickup_deadline_at} />
+                <TimestampRow icon={<Truck className="h-4 w-4 text-blue-500" />} label="Liberada em" value={donation.released_at} />
+                <TimestampRow icon={<CheckCircle className="h-4 w-4 text-purple-500" />} label="Coletada em" value={donation.picked_up_at} />
+              </dl>
+            </div>
+
+            {/* Pacotes */}
+            <div className="bg-gray-50 rounded-xl border border-gray-200 p-4">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-sm font-medium text-gray-900 flex items-center">
+                  <Scale className="h-4 w-4 mr-2 text-green-500" />
+                  Pacotes ({donation.packages.length})
+                </h2>
+                <div className="text-right">
+                  <div className="text-lg font-bold text-gray-900">{totalKg.toFixed(1)} kg</div>
+                  <div className="text-xs text-gray-500">Total</div>
+                </div>
+              </div>
+              <div className="space-y-3">
+                {donation.packages.map((pkg) => (
+                  <PackageItem key={pkg.id} package={pkg} />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {showRedirectModal && (
+        <RedirectModal
+          isOpen={showRedirectModal}
+          onClose={() => setShowRedirectModal(false)}
+          donation={donation}
+        />
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const TimestampRow = ({
+  icon,
+  label,
+  value,
+}: {
+  icon: ReactNode;
+  label: string;
+  value: string | null;
+}) => (
+  <div className="flex items-center justify-between text-sm">
+    <dt className="flex items-center text-gray-600">
+      <span className="mr-2">{icon}</span>
+      {label}
+    </dt>
+    <dd className={value ? 'text-gray-900 font-medium' : 'text-gray-400'}>
+      {value ? formatDateTime(value) : '—'}
+    </dd>
+  </div>
+);
+
+const DonationNotFound = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+    <div className="text-center">
+      <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Package className="w-8 h-8 text-gray-400" />
+      </div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Doação não encontrada</h3>
+      <p className="text-gray-500 max-w-sm mx-auto mb-6">
+        Verifique se o link está correto ou se a doação ainda existe.
+      </p>
+      <Link
+        to="/donations"
+        className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Voltar para Doações
+      </Link>
+    </div>
+  </div>
+);
@@ -0,0 +1,436 @@
+import { useState, ReactNode } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ChevronDown,
+  ChevronRight,
+  ChevronLeft,
+  History,
+  Filter,
+  TrendingUp,
+  Download,
+} from 'lucide-react';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { DonationCard, StatusBadge } from '../components/DonationCard';
+import { AdminDonation, formatDateTime, getTotalKg } from '../lib/donations';
+import { ImpactFactors, getDonationImpact } from '../lib/impact';
+import { downloadCsv } from '../lib/spreadsheet';
+import { useImpactFactors } from '../hooks/useImpactFactors';
+import toast from 'react-hot-toast';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+type HistoryStatus = '' | 'picked_up' | 'denied' | 'released' | 'expired';
+
+type HistoryFilters = {
+  status: HistoryStatus;
+  from: string; // yyyy-mm-dd
+  to: string;   // yyyy-mm-dd
+  restaurantId: string;
+  oscId: string;
+};
+
+type Option = { id: string; name: string };
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS: HistoryFilters = {
+  status: '',
+  from: '',
+  to: '',
+  restaurantId: '',
+  oscId: '',
+};
+
+const STATUS_OPTIONS: { value: HistoryStatus; label: string }[] = [
+  { value: '', label: 'Todas encerradas' },
+  { value: 'picked_up', label: 'Coletadas' },
+  { value: 'denied', label: 'Negadas' },
+  { value: 'released', label: 'Liberadas' },
+  { value: 'expired', label: 'Com oferta expirada' },
+];
+
+/* ------------------------------------------------------------------ */
+/* Hooks                                                               */
+/* ------------------------------------------------------------------ */
+// Mesma consulta para a página atual e para a exportação
+const buildHistoryQuery = (filters: HistoryFilters, count?: 'exact') => {
+  let query = supabase
+    .from('v_admin_donations')
+    .select('*', { count })
+    .order('created_at', { ascending: false })
+    .order('donation_id');
+
+  // "expired" não é um status da doação: filtra pelas ofertas expiradas
+  if (filters.status === 'expired') {
+    query = query.eq('has_expired_intent', true);
+  } else if (filters.status) {
+    query = query.eq('donation_status', filters.status);
+  } else {
+    query = query.or('donation_status.in.(picked_up,denied,released),has_expired_intent.eq.true');
+  }
+
+  if (filters.from) {
+    query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+  if (filters.restaurantId) query = query.eq('restaurant_id', filters.restaurantId);
+  if (filters.oscId) query = query.eq('osc_id', filters.oscId);
+
+  return query;
+};
+
+function useDonationHistory(filters: HistoryFilters, page: number) {
+  return useQuery<{ rows: AdminDonation[]; total: number }>({
+    queryKey: ['admin', 'donations-history', filters, page],
+    queryFn: async () => {
+      const { data, error, count } = await buildHistoryQuery(filters, 'exact')
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+      if (error) throw error;
+      return { rows: data as AdminDonation[], total: count ?? 0 };
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 60_000,
+  });
+}
+
+/** Todas as linhas do filtro, em lotes (o PostgREST limita cada resposta). */
+const fetchAllHistory = (filters: HistoryFilters) =>
+  fetchAllRows<AdminDonation>((from, to) => buildHistoryQuery(filters).range(from, to));
+
+const toExportRows = (donations: AdminDonation[], versions: ImpactFactors[]) => [
+  [
+    'id', 'criada_em', 'coletada_em', 'status', 'restaurante', 'osc',
+    'kg', 'refeicoes', 'beneficiarios', 'co2e_kg', 'versao_fatores',
+  ],
+  ...donations.map(d => {
+    const impact = getDonationImpact(d, versions);
+    return [
+      d.donation_id,
+      d.created_at,
+      d.picked_up_at ?? '',
+      d.donation_status,
+      d.restaurant_name,
+      d.osc_name,
+      impact.kg.toFixed(2),
+      impact.meals.toFixed(1),
+      impact.beneficiaries.toFixed(1),
+      impact.co2eKg.toFixed(2),
+      d.donation_status === 'picked_up' && impact.version !== null ? `v${impact.version}` : '',
+    ];
+  }),
+];
+
+function useOptions(table: 'restaurants' | 'osc') {
+  return useQuery<Option[]>({
+    queryKey: ['options', table],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from(table)
+        .select('id, name')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60_000,
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function DonationHistory() {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading, isFetching } = useDonationHistory(filters, page);
+  const { data: restaurants } = useOptions('restaurants');
+  const { data: oscs } = useOptions('osc');
+  const { data: impactFactors } = useImpactFactors();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllHistory(filters);
+      downloadCsv(
+        `historico-doacoes-${new Date().toISOString().slice(0, 10)}.csv`,
+        toExportRows(rows, impactFactors ?? []),
+      );
+    } catch {
+      toast.error('Erro ao exportar o histórico');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(0);
+    setExpandedId(null);
+  };
+
+  const goToPage = (next: number) => {
+    setPage(next);
+    setExpandedId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-full mx-auto">
+        {/* ---------- HEADER ---------- */}
+        <div className="mb-8">
+          <Link
+            to="/donations"
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-3"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Doações em andamento
+          </Link>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Histórico de Doações</h1>
+              <p className="text-lg text-gray-600">
+                Consulte doações coletadas, negadas, liberadas ou com ofertas expiradas
+              </p>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || total === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exportando...' : 'Exportar CSV'}
+            </button>
+          </div>
+        </div>
+
+        {/* ---------- FILTROS ---------- */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-sm font-medium text-gray-900 flex items-center">
+              <Filter className="h-4 w-4 mr-2 text-blue-500" />
+              Filtros
+            </h2>
+            {hasFilters && (
+              <button
+                onClick={() => {
+                  setFilters(EMPTY_FILTERS);
+                  goToPage(0);
+                }}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                Limpar filtros
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <FilterField label="Status">
+              <select
+                value={filters.status}
+                onChange={(e) => updateFilter('status', e.target.value as HistoryStatus)}
+                className={selectClass}
+              >
+                {STATUS_OPTIONS.map(o => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </FilterField>
+            <FilterField label="De">
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className={selectClass}
+              />
+            </FilterField>
+            <FilterField label="Até">
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className={selectClass}
+              />
+            </FilterField>
+            <FilterField label="Restaurante">
+              <select
+                value={filters.restaurantId}
+                onChange={(e) => updateFilter('restaurantId', e.target.value)}
+                className={selectClass}
+              >
+                <option value="">Todos</option>
+                {restaurants?.map(r => (
+                  <option key={r.id} value={r.id}>{r.name}</option>
+                ))}
+              </select>
+            </FilterField>
+            <FilterField label="OSC">
+              <select
+                value={filters.oscId}
+                onChange={(e) => updateFilter('oscId', e.target.value)}
+                className={selectClass}
+              >
+                <option value="">Todas</option>
+                {oscs?.map(o => (
+                  <option key={o.id} value={o.id}>{o.name}</option>
+                ))}
+              </select>
+            </FilterField>
+          </div>
+        </div>
+
+        {/* ---------- LISTA ---------- */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <History className="h-5 w-5 text-blue-600 mr-2" />
+              Doações encerradas ({total.toLocaleString()})
+            </h2>
+            {isFetching && !isLoading && (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600" />
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+            </div>
+          ) : data && data.rows.length > 0 ? (
+            <div className="divide-y divide-gray-200">
+              {data.rows.map((donation) => (
+                <HistoryRow
+                  key={donation.donation_id}
+                  donation={donation}
+                  isExpanded={expandedId === donation.donation_id}
+                  onToggle={() =>
+                    setExpandedId(prev => (prev === donation.donation_id ? null : donation.donation_id))
+                  }
+                />
+              ))}
+            </div>
+          ) : (
+            <EmptyHistoryState hasFilters={hasFilters} />
+          )}
+
+          {/* Paginação */}
+          {total > PAGE_SIZE && (
+            <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Página {page + 1} de {totalPages}
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => goToPage(page - 1)}
+                  disabled={page === 0}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Anterior
+                </button>
+                <button
+                  onClick={() => goToPage(page + 1)}
+                  disabled={page + 1 >= totalPages}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Próxima
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const selectClass =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const FilterField = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div>
+    <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+      {label}
+    </label>
+    {children}
+  </div>
+);
+
+const HistoryRow = ({
+  donation,
+  isExpanded,
+  onToggle,
+}: {
+  donation: AdminDonation;
+  isExpanded: boolean;
+  onToggle: () => void;
+}) => (
+  <div>
+    <button
+      onClick={onToggle}
+      className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-blue-50/30 transition-colors"
+    >
+      <div className="flex items-center space-x-4 min-w-0">
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        )}
+        <div className="min-w-0">
+          <div className="flex items-center space-x-3">
+            <span className="text-sm font-semibold text-gray-900">
+              #{donation.donation_id.slice(-8)}
+            </span>
+            <StatusBadge status={donation.donation_status} />
+          </div>
+          <div className="flex items-center text-sm text-gray-600 mt-1">
+            <span className="truncate">{donation.restaurant_name}</span>
+            <TrendingUp className="h-3 w-3 mx-2 text-blue-500 flex-shrink-0" />
+            <span className="truncate">{donation.osc_name}</span>
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center space-x-8 flex-shrink-0 text-right">
+        <div>
+          <div className="text-sm font-bold text-gray-900">{getTotalKg(donation).toFixed(1)} kg</div>
+          <div className="text-xs text-gray-500">{donation.packages.length} pacote(s)</div>
+        </div>
+        <div className="text-xs text-gray-500 w-32">{formatDateTime(donation.created_at)}</div>
+      </div>
+    </button>
+
+    {isExpanded && (
+      <div className="px-6 pb-6 bg-gray-50/50">
+        <DonationCard donation={donation} />
+      </div>
+    )}
+  </div>
+);
+
+const EmptyHistoryState = ({ hasFilters }: { hasFilters: boolean }) => (
+  <div className="text-center py-16">
+    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+      <History className="w-8 h-8 text-gray-400" />
+    </div>
+    <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhuma doação encontrada</h3>
+    <p className="text-gray-500 max-w-sm mx-auto">
+      {hasFilters
+        ? 'Nenhuma doação corresponde aos filtros selecionados.'
+        : 'Doações encerradas aparecerão aqui.'}
+    </p>
+  </div>
+);
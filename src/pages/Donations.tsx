@@ -1,23 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { 
+import { Link, useSearchParams } from 'react-router-dom';
+import {
   Package,
   Clock,
   CheckCircle,
   AlertCircle,
-  MapPin,
-  Calendar,
-  Timer,
-  Building2,
-  Heart,
   Truck,
-  Scale,
-  TrendingUp,
   XCircle,
-  Users,
-  X
+  History,
+  Search,
+  Filter,
+  ArrowUpDown,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { DonationCard } from '../components/DonationCard';
+import { useChangedKeys } from '../hooks/useChangedKeys';
+import { useOngoingDonations } from '../hooks/useDonations';
+import { usePeriodComparison } from '../hooks/usePeriodComparison';
+import { PeriodSelector } from '../components/PeriodSelector';
+import { DeltaBadge } from '../components/DeltaBadge';
+import {
+  AdminDonation,
+  getDeadline,
+  getPackageExpiryStatus,
+  getTotalKg,
+} from '../lib/donations';
 
 /* ------------------------------------------------------------------ */
 /* Tipos                                                               */
@@ -30,52 +38,11 @@ type DonationCounters = {
   total_discarded_kgs: string;
 };
 
-type DonationIntent = {
-  id: string;
-  status: 'waiting_response' | 'accepted' | 'denied' | 'expired' | 're_routed';
-  created_at: string;
-  updated_at: string;
-  expires_at: string | null;
-  osc: {
-    id: string;
-    name: string;
-  };
-};
-
-type PackageInfo = {
-  id: string;
-  quantity: number;
-  total_kg: number;
-  expires_at: string;
-  label_code: string;
-  status: string;
-  item: {
-    id: string;
-    name: string;
-    description: string;
-  };
-};
-
-type OngoingDonation = {
-  donation_id: string;
-  donation_status: 'pending' | 'accepted' | 'denied' | 'released' | 'picked_up';
-  created_at: string;
-  pickup_deadline_at: string | null;
-  accepted_at: string | null;
-  released_at: string | null;
-  picked_up_at: string | null;
-  restaurant_id: string;
-  restaurant_name: string;
-  restaurant_email: string;
-  restaurant_phone: string | null;
-  osc_id: string;
-  osc_name: string;
-  osc_phone: string;
-  osc_email: string | null;
-  distance_km: number;
-  donation_intents: DonationIntent[];
-  packages: PackageInfo[];
-};
+// Mesmos campos, restritos ao período (RPC admin_donation_counters_period)
+type PeriodDonationCounters = Pick<
+  DonationCounters,
+  'total_donations_done' | 'total_kg_donated' | 'total_discarded_kgs'
+>;
 
 /* ------------------------------------------------------------------ */
 /* Hooks                                                               */
@@ -95,27 +62,106 @@ function useDonationCounters() {
   });
 }
 
-function useOngoingDonations() {
-  return useQuery<OngoingDonation[]>({
-    queryKey: ['admin', 'ongoing-donations'],
-    queryFn: async () => {
+function usePeriodDonationCounters() {
+  return usePeriodComparison<PeriodDonationCounters>(
+    ['admin', 'donation-counters', 'period'],
+    async ({ from, to }) => {
       const { data, error } = await supabase
-        .from('v_admin_donations_ongoing')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .rpc('admin_donation_counters_period', { p_from: from, p_to: to })
+        .single();
       if (error) throw error;
-      return data;
+      return data as PeriodDonationCounters;
     },
-    staleTime: 30_000,
-  });
+  );
 }
 
 /* ------------------------------------------------------------------ */
-/* Utils                                                               */
+/* Filtros e ordenação (persistidos na query string)                   */
 /* ------------------------------------------------------------------ */
-const formatKm = (km: number) => {
-  if (!Number.isFinite(km)) return '';
-  return km % 1 === 0 ? `${km} km` : `${km.toFixed(1)} km`;
+type SortKey = 'created_at' | 'deadline' | 'total_kg' | 'distance_km';
+
+type DonationFilters = {
+  q: string;
+  restaurant: string;
+  osc: string;
+  city: string;
+  status: '' | 'pending' | 'accepted';
+  expiring: boolean;
+  sort: SortKey;
+  dir: 'asc' | 'desc';
+};
+
+const SORT_OPTIONS: { value: SortKey; label: string; defaultDir: DonationFilters['dir'] }[] = [
+  { value: 'created_at', label: 'Data de criação', defaultDir: 'desc' },
+  { value: 'deadline', label: 'Prazo mais próximo', defaultDir: 'asc' },
+  { value: 'total_kg', label: 'Total (kg)', defaultDir: 'desc' },
+  { value: 'distance_km', label: 'Distância', defaultDir: 'asc' },
+];
+
+const readFilters = (params: URLSearchParams): DonationFilters => {
+  const sort = (SORT_OPTIONS.find(o => o.value === params.get('sort')) ?? SORT_OPTIONS[0]);
+  const status = params.get('status');
+  return {
+    q: params.get('q') ?? '',
+    restaurant: params.get('restaurant') ?? '',
+    osc: params.get('osc') ?? '',
+    city: params.get('city') ?? '',
+    status: status === 'pending' || status === 'accepted' ? status : '',
+    expiring: params.get('expiring') === '1',
+    sort: sort.value,
+    dir: params.get('dir') === 'asc' || params.get('dir') === 'desc'
+      ? (params.get('dir') as DonationFilters['dir'])
+      : sort.defaultDir,
+  };
+};
+
+const hasExpiringPackage = (d: AdminDonation, now: Date) =>
+  d.packages.some(pkg => getPackageExpiryStatus(pkg, now) !== null);
+
+const applyFilters = (donations: AdminDonation[], f: DonationFilters, now: Date) => {
+  const term = f.q.trim().toLowerCase();
+
+  return donations.filter(d => {
+    if (f.restaurant && d.restaurant_id !== f.restaurant) return false;
+    if (f.osc && d.osc_id !== f.osc) return false;
+    if (f.city && d.restaurant_city !== f.city) return false;
+    if (f.status && d.donation_status !== f.status) return false;
+    if (f.expiring && !hasExpiringPackage(d, now)) return false;
+    if (term) {
+      const haystack = [
+        d.restaurant_name,
+        d.osc_name,
+        ...d.packages.map(p => p.label_code),
+      ].join(' ').toLowerCase();
+      if (!haystack.includes(term)) return false;
+    }
+    return true;
+  });
+};
+
+const sortDonations = (donations: AdminDonation[], sort: SortKey, dir: DonationFilters['dir']) => {
+  const value = (d: AdminDonation): number | null => {
+    switch (sort) {
+      case 'created_at': return new Date(d.created_at).getTime();
+      case 'deadline': {
+        const deadline = getDeadline(d);
+        return deadline ? new Date(deadline).getTime() : null;
+      }
+      case 'total_kg': return getTotalKg(d);
+      case 'distance_km': return Number.isFinite(d.distance_km) ? d.distance_km : null;
+    }
+  };
+  const factor = dir === 'asc' ? 1 : -1;
+
+  // Itens sem valor (ex.: sem prazo) vão sempre para o fim
+  return [...donations].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === null && vb === null) return 0;
+    if (va === null) return 1;
+    if (vb === null) return -1;
+    return (va - vb) * factor;
+  });
 };
 
 /* ------------------------------------------------------------------ */
@@ -123,7 +169,25 @@ const formatKm = (km: number) => {
 /* ------------------------------------------------------------------ */
 export function Donations() {
   const { data: counters, isLoading: loadingCounters } = useDonationCounters();
+  const { data: period } = usePeriodDonationCounters();
   const { data: donations, isLoading: loadingDonations } = useOngoingDonations();
+  const changedIds = useChangedKeys(donations, d => d.donation_id);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = readFilters(searchParams);
+
+  const updateFilters = (patch: Partial<DonationFilters>) => {
+    const next = { ...filters, ...patch };
+    const params = new URLSearchParams();
+    if (next.q) params.set('q', next.q);
+    if (next.restaurant) params.set('restaurant', next.restaurant);
+    if (next.osc) params.set('osc', next.osc);
+    if (next.city) params.set('city', next.city);
+    if (next.status) params.set('status', next.status);
+    if (next.expiring) params.set('expiring', '1');
+    if (next.sort !== 'created_at') params.set('sort', next.sort);
+    if (next.dir !== SORT_OPTIONS.find(o => o.value === next.sort)?.defaultDir) params.set('dir', next.dir);
+    setSearchParams(params, { replace: true });
+  };
 
   if (loadingCounters) {
     return (
@@ -133,27 +197,53 @@ export function Donations() {
     );
   }
 
-  const pendingDonations = donations?.filter(d => d.donation_status === 'pending') || [];
-  const acceptedDonations = donations?.filter(d => d.donation_status === 'accepted') || [];
+  const now = new Date();
+  const visibleDonations = sortDonations(
+    applyFilters(donations ?? [], filters, now),
+    filters.sort,
+    filters.dir,
+  );
+  const pendingDonations = visibleDonations.filter(d => d.donation_status === 'pending');
+  const acceptedDonations = visibleDonations.filter(d => d.donation_status === 'accepted');
+  const isFiltered =
+    !!filters.q || !!filters.restaurant || !!filters.osc || !!filters.city || !!filters.status || filters.expiring;
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-full mx-auto">
         {/* ---------- HEADER ---------- */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Doações</h1>
-          <p className="text-lg text-gray-600">
-            Acompanhe o fluxo de doações da plataforma
-          </p>
+        <div className="flex flex-wrap justify-between items-start gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Doações</h1>
+            <p className="text-lg text-gray-600">
+              Acompanhe o fluxo de doações da plataforma
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-3">
+            <PeriodSelector />
+            <Link
+              to="/donations/history"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              <History className="h-4 w-4 mr-2" />
+              Histórico de Doações
+            </Link>
+          </div>
         </div>
 
         {/* ---------- STAT CARDS ---------- */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <StatCard
             icon={<CheckCircle className="h-8 w-8 text-green-600" />}
-            label="Total de Doações"
-            value={counters?.total_donations_done ?? 0}
-            subtitle={`${counters?.total_kg_donated ?? '0'} kg doados`}
+            label="Doações no Período"
+            value={period?.current.total_donations_done ?? 0}
+            subtitle={`${period?.current.total_kg_donated ?? '0'} kg doados`}
+            delta={period && (
+              <DeltaBadge
+                current={period.current.total_donations_done}
+                previous={period.previous.total_donations_done}
+              />
+            )}
             bgColor="bg-green-100"
             textColor="text-green-600"
           />
@@ -167,14 +257,31 @@ export function Donations() {
           />
           <StatCard
             icon={<XCircle className="h-8 w-8 text-red-600" />}
-            label="Total Descartado"
-            value={`${counters?.total_discarded_kgs ?? '0'} kg`}
+            label="Descartado no Período"
+            value={`${period?.current.total_discarded_kgs ?? '0'} kg`}
+            delta={period && (
+              <DeltaBadge
+                current={Number(period.current.total_discarded_kgs)}
+                previous={Number(period.previous.total_discarded_kgs)}
+                invert
+              />
+            )}
             subtitle="Alimentos não aproveitados"
             bgColor="bg-red-100"
             textColor="text-red-600"
           />
         </div>
 
+        {/* ---------- FILTROS ---------- */}
+        <DonationFiltersBar
+          filters={filters}
+          donations={donations ?? []}
+          onChange={updateFilters}
+          onClear={() => setSearchParams(new URLSearchParams(), { replace: true })}
+          resultCount={visibleDonations.length}
+          isFiltered={isFiltered}
+        />
+
         {/* ---------- DOAÇÕES PENDENTES ---------- */}
         {pendingDonations.length > 0 && (
           <div className="mb-8">
@@ -191,7 +298,11 @@ export function Donations() {
             </div>
             <div className="grid gap-6">
               {pendingDonations.map((donation) => (
-                <DonationCard key={donation.donation_id} donation={donation} />
+                <DonationCard
+                  key={donation.donation_id}
+                  donation={donation}
+                  highlighted={changedIds.has(donation.donation_id)}
+                />
               ))}
             </div>
           </div>
@@ -213,7 +324,11 @@ export function Donations() {
             </div>
             <div className="grid gap-6">
               {acceptedDonations.map((donation) => (
-                <DonationCard key={donation.donation_id} donation={donation} />
+                <DonationCard
+                  key={donation.donation_id}
+                  donation={donation}
+                  highlighted={changedIds.has(donation.donation_id)}
+                />
               ))}
             </div>
           </div>
@@ -225,7 +340,25 @@ export function Donations() {
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
           </div>
         ) : (!pendingDonations.length && !acceptedDonations.length) && (
-          <EmptyDonationsState />
+          isFiltered ? (
+            <div className="text-center py-12">
+              <Search className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum resultado encontrado</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Nenhuma doação em andamento corresponde aos filtros.
+              </p>
+              <div className="mt-6">
+                <button
+                  onClick={() => setSearchParams(new URLSearchParams(), { replace: true })}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors"
+                >
+                  Limpar filtros
+                </button>
+              </div>
+            </div>
+          ) : (
+            <EmptyDonationsState />
+          )
         )}
       </div>
     </div>
@@ -233,207 +366,143 @@ export function Donations() {
 }
 
 /* ------------------------------------------------------------------ */
-/* Card de Doação                                                      */
+/* Sub-componentes                                                     */
 /* ------------------------------------------------------------------ */
-interface DonationCardProps {
-  donation: OngoingDonation;
+interface DonationFiltersBarProps {
+  filters: DonationFilters;
+  donations: AdminDonation[];
+  onChange: (patch: Partial<DonationFilters>) => void;
+  onClear: () => void;
+  resultCount: number;
+  isFiltered: boolean;
 }
 
-function DonationCard({ donation }: DonationCardProps) {
-  const [currentTime, setCurrentTime] = useState(new Date());
-  const [showRedirectModal, setShowRedirectModal] = useState(false);
-
-  // Single ticking clock (every second)
-  useEffect(() => {
-    const id = setInterval(() => setCurrentTime(new Date()), 1000);
-    return () => clearInterval(id);
-  }, []);
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('pt-BR', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
-
-  const formatHMS = (ms: number) => {
-    if (ms <= 0) return '00:00:00';
-    const totalSec = Math.floor(ms / 1000);
-    const h = Math.floor(totalSec / 3600);
-    const m = Math.floor((totalSec % 3600) / 60);
-    const s = totalSec % 60;
-    const pad = (n: number) => n.toString().padStart(2, '0');
-    return `${pad(h)}:${pad(m)}:${pad(s)}`;
-  };
-
-  const getTimeRemaining = () => {
-    let diffMs = 0;
-
-    if (donation.donation_status === 'pending') {
-      const waitingIntent = donation.donation_intents.find(i => i.status === 'waiting_response');
-      if (waitingIntent?.expires_at) {
-        diffMs = new Date(waitingIntent.expires_at).getTime() - currentTime.getTime();
-        if (diffMs <= 0) return { text: 'Expirado', color: 'text-red-600', urgent: true };
-        const urgent = diffMs <= 2 * 60 * 60 * 1000; // < 2h
-        return { text: formatHMS(diffMs), color: urgent ? 'text-red-600' : 'text-yellow-600', urgent };
-      }
-    } else if (donation.donation_status === 'accepted' && donation.pickup_deadline_at) {
-      diffMs = new Date(donation.pickup_deadline_at).getTime() - currentTime.getTime();
-      if (diffMs <= 0) return { text: 'Prazo vencido', color: 'text-red-600', urgent: true };
-      const urgent = diffMs <= 4 * 60 * 60 * 1000; // < 4h
-      return { text: formatHMS(diffMs), color: urgent ? 'text-red-600' : 'text-blue-600', urgent };
-    }
-
-    return null;
-  };
-
-  const timeInfo = getTimeRemaining();
-  const totalKg = donation.packages.reduce((sum, pkg) => sum + pkg.total_kg, 0);
+function DonationFiltersBar({
+  filters,
+  donations,
+  onChange,
+  onClear,
+  resultCount,
+  isFiltered,
+}: DonationFiltersBarProps) {
+  // Opções derivadas das próprias doações em andamento
+  const uniqueBy = (entries: [string, string][]) =>
+    [...new Map(entries)].sort((a, b) => a[1].localeCompare(b[1]));
+  const restaurants = uniqueBy(donations.map(d => [d.restaurant_id, d.restaurant_name]));
+  const oscs = uniqueBy(donations.map(d => [d.osc_id, d.osc_name]));
+  const cities = [...new Set(donations.map(d => d.restaurant_city).filter((c): c is string => !!c))].sort();
 
   return (
-    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow">
-      {/* Header */}
-      <div className="bg-gradient-to-r from-blue-50 to-indigo-50 px-6 py-4 border-b border-gray-200">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
-              <Package className="h-6 w-6 text-blue-600" />
-            </div>
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">
-                Doação #{donation.donation_id.slice(-8)}
-              </h3>
-              <div className="flex items-center space-x-4 text-sm text-gray-600">
-                <div className="flex items-center">
-                  <Calendar className="h-4 w-4 mr-1" />
-                  Criada em {formatDate(donation.created_at)}
-                </div>
-                <StatusBadge status={donation.donation_status} />
-              </div>
-            </div>
-          </div>
-          
-          {timeInfo && (
-            <div className={`flex flex-col items-end space-y-1 px-4 py-3 rounded-lg ${
-              timeInfo.urgent ? 'bg-red-100' : 'bg-yellow-100'
-            }`}>
-              <div className="flex items-center space-x-2">
-                <Timer className={`h-4 w-4 ${timeInfo.color}`} />
-                <span className={`text-sm font-bold ${timeInfo.color}`}>
-                  {timeInfo.text}
-                </span>
-              </div>
-              <span className="text-xs text-gray-600">
-                {donation.donation_status === 'pending' 
-                  ? 'Tempo restante para a OSC aceitar'
-                  : 'Tempo restante para OSC retirar'
-                }
-              </span>
-            </div>
-          )}
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-8 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[260px]">
+          <input
+            type="text"
+            placeholder="Buscar por restaurante, OSC ou código do pacote..."
+            value={filters.q}
+            onChange={(e) => onChange({ q: e.target.value })}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
         </div>
-      </div>
-
-      <div className="p-6">
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Restaurante e OSC */}
-          <div className="lg:col-span-2 space-y-6">
-            {/* Fluxo Restaurante -> OSC */}
-            <div className="flex items-center space-x-4">
-              <RestaurantInfo 
-                name={donation.restaurant_name}
-                email={donation.restaurant_email}
-                phone={donation.restaurant_phone}
-              />
-              
-              <div className="flex-shrink-0 flex flex-col items-center">
-                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center mb-1">
-                  <TrendingUp className="h-4 w-4 text-blue-600" />
-                </div>
-                {donation.distance_km !== null && donation.distance_km !== undefined && (
-                  <span className="text-xs text-gray-500">
-                    {formatKm(donation.distance_km)}
-                  </span>
-                )}
-              </div>
-              
-              <OSCInfo 
-                name={donation.osc_name}
-                email={donation.osc_email}
-                phone={donation.osc_phone}
-              />
-            </div>
 
-            {/* Timeline dos Intents */}
-            <div>
-              <h4 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
-                <Clock className="h-4 w-4 mr-2 text-blue-500" />
-                Histórico da Doação
-              </h4>
-              <IntentTimeline intents={donation.donation_intents} />
-              
-              {/* Botão de redirecionamento para doações pendentes */}
-              {donation.donation_status === 'pending' && (
-                <div className="mt-4 pt-4 border-t border-gray-200">
-                  <button
-                    onClick={() => setShowRedirectModal(true)}
-                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
-                  >
-                    <TrendingUp className="h-4 w-4 mr-2" />
-                    Gostaria de redirecionar essa doação?
-                  </button>
-                </div>
-              )}
-            </div>
-          </div>
+        <div className="flex items-center space-x-2">
+          <ArrowUpDown className="h-4 w-4 text-gray-400" />
+          <select
+            value={filters.sort}
+            onChange={(e) => {
+              const sort = e.target.value as SortKey;
+              onChange({ sort, dir: SORT_OPTIONS.find(o => o.value === sort)?.defaultDir ?? 'desc' });
+            }}
+            className={filterSelectClass}
+          >
+            {SORT_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange({ dir: filters.dir === 'asc' ? 'desc' : 'asc' })}
+            className="px-3 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            title="Inverter ordem"
+          >
+            {filters.dir === 'asc' ? 'Crescente' : 'Decrescente'}
+          </button>
+        </div>
+      </div>
 
-          {/* Pacotes */}
-          <div>
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-4">
-                <h4 className="text-sm font-medium text-gray-900 flex items-center">
-                  <Scale className="h-4 w-4 mr-2 text-green-500" />
-                  Pacotes ({donation.packages.length})
-                </h4>
-                <div className="text-right">
-                  <div className="text-lg font-bold text-gray-900">{totalKg.toFixed(1)} kg</div>
-                  <div className="text-xs text-gray-500">Total</div>
-                </div>
-              </div>
-              
-              <div className="space-y-3 max-h-64 overflow-y-auto">
-                {donation.packages.map((pkg) => (
-                  <PackageItem key={pkg.id} package={pkg} />
-                ))}
-              </div>
-            </div>
-          </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <Filter className="h-4 w-4 text-gray-400" />
+        <select
+          value={filters.status}
+          onChange={(e) => onChange({ status: e.target.value as DonationFilters['status'] })}
+          className={filterSelectClass}
+        >
+          <option value="">Todos os status</option>
+          <option value="pending">Aguardando aceite</option>
+          <option value="accepted">Aguardando coleta</option>
+        </select>
+        <select
+          value={filters.restaurant}
+          onChange={(e) => onChange({ restaurant: e.target.value })}
+          className={filterSelectClass}
+        >
+          <option value="">Todos os restaurantes</option>
+          {restaurants.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select
+          value={filters.osc}
+          onChange={(e) => onChange({ osc: e.target.value })}
+          className={filterSelectClass}
+        >
+          <option value="">Todas as OSCs</option>
+          {oscs.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <select
+          value={filters.city}
+          onChange={(e) => onChange({ city: e.target.value })}
+          className={filterSelectClass}
+        >
+          <option value="">Todas as cidades</option>
+          {cities.map(city => (
+            <option key={city} value={city}>{city}</option>
+          ))}
+        </select>
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={filters.expiring}
+            onChange={(e) => onChange({ expiring: e.target.checked })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Pacotes perto de vencer
+        </label>
+
+        <div className="ml-auto flex items-center space-x-3 text-sm text-gray-500">
+          <span>{resultCount} doação(ões)</span>
+          {isFiltered && (
+            <button onClick={onClear} className="font-medium text-blue-600 hover:text-blue-800">
+              Limpar filtros
+            </button>
+          )}
         </div>
       </div>
-      
-      {/* Modal de redirecionamento */}
-      {showRedirectModal && (
-        <RedirectModal 
-          isOpen={showRedirectModal}
-          onClose={() => setShowRedirectModal(false)}
-          donationId={donation.donation_id}
-        />
-      )}
     </div>
   );
 }
 
-/* ------------------------------------------------------------------ */
-/* Sub-componentes                                                     */
-/* ------------------------------------------------------------------ */
+const filterSelectClass =
+  'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
 const StatCard = ({
   icon,
   label,
   value,
   subtitle,
+  delta,
   bgColor,
   textColor,
 }: {
@@ -441,6 +510,7 @@ const StatCard = ({
   label: string;
   value: number | string;
   subtitle: string;
+  delta?: React.ReactNode;
   bgColor: string;
   textColor: string;
 }) => (
@@ -451,241 +521,16 @@ const StatCard = ({
       </div>
       <div className="ml-4">
         <p className="text-sm font-medium text-gray-500">{label}</p>
-        <p className="text-2xl font-bold text-gray-900">{typeof value === 'number' ? value.toLocaleString() : value}</p>
-        <p className="text-sm text-gray-600">{subtitle}</p>
-      </div>
-    </div>
-  </div>
-);
-
-const StatusBadge = ({ status }: { status: string }) => {
-  const statusMap = {
-    pending: { color: 'yellow', label: 'Aguardando Aceite' },
-    accepted: { color: 'blue', label: 'Aceita - Aguardando Coleta' },
-    released: { color: 'green', label: 'Liberada' },
-    picked_up: { color: 'green', label: 'Coletada' },
-    denied: { color: 'red', label: 'Negada' },
-  }[status] || { color: 'gray', label: status };
-
-  return (
-    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-${statusMap.color}-100 text-${statusMap.color}-800`}>
-      {statusMap.label}
-    </span>
-  );
-};
-
-const RestaurantInfo = ({ name, email, phone }: { name: string; email: string; phone: string | null }) => (
-  <div className="flex items-center space-x-3 bg-blue-50 rounded-lg p-4 flex-1">
-    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
-      <Users className="h-5 w-5 text-blue-600" />
-    </div>
-    <div className="min-w-0 flex-1">
-      <h5 className="font-medium text-gray-900 truncate">{name}</h5>
-      <div className="text-sm text-gray-600 space-y-1">
-        <div className="flex items-center">
-          <span className="truncate">{email}</span>
-        </div>
-        {phone && (
-          <div className="flex items-center">
-            <span>{phone}</span>
-          </div>
-        )}
-      </div>
-    </div>
-  </div>
-);
-
-const OSCInfo = ({ name, email, phone }: { name: string; email: string | null; phone: string }) => (
-  <div className="flex items-center space-x-3 bg-green-50 rounded-lg p-4 flex-1">
-    <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center flex-shrink-0">
-      <Heart className="h-5 w-5 text-green-600" />
-    </div>
-    <div className="min-w-0 flex-1">
-      <h5 className="font-medium text-gray-900 truncate">{name}</h5>
-      <div className="text-sm text-gray-600 space-y-1">
-        {email && (
-          <div className="flex items-center">
-            <span className="truncate">{email}</span>
-          </div>
-        )}
-        <div className="flex items-center">
-          <span>{phone}</span>
+        <div className="flex items-baseline space-x-2">
+          <p className="text-2xl font-bold text-gray-900">{typeof value === 'number' ? value.toLocaleString() : value}</p>
+          {delta}
         </div>
+        <p className="text-sm text-gray-600">{subtitle}</p>
       </div>
     </div>
   </div>
 );
 
-const IntentTimeline = ({ intents }: { intents: DonationIntent[] }) => {
-  const sortedIntents = [...intents].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-
-  const getIntentIcon = (status: string) => {
-    switch (status) {
-      case 'waiting_response': return <Clock className="h-4 w-4 text-yellow-500" />;
-      case 'accepted': return <CheckCircle className="h-4 w-4 text-green-500" />;
-      case 'denied': return <XCircle className="h-4 w-4 text-red-500" />;
-      case 'expired': return <AlertCircle className="h-4 w-4 text-gray-500" />;
-      case 're_routed': return <TrendingUp className="h-4 w-4 text-blue-500" />;
-      default: return <Clock className="h-4 w-4 text-gray-500" />;
-    }
-  };
-
-  const getIntentLabel = (status: string, oscName: string) => {
-    switch (status) {
-      case 'waiting_response': return `Ainda estamos aguardando a resposta da ${oscName}`;
-      case 'accepted': return `${oscName} aceitou a doação!`;
-      case 'denied': return `${oscName} recusou a oferta de doação`;
-      case 'expired': return `Oferta para ${oscName} expirou`;
-      case 're_routed': return `Doação redirecionada para ${oscName}`;
-      default: return status;
-    }
-  };
-
-  return (
-    <div className="space-y-3">
-      {sortedIntents.map((intent) => (
-        <div key={intent.id} className="flex items-center space-x-3">
-          <div className="flex-shrink-0 w-8 h-8 bg-white border-2 border-gray-200 rounded-full flex items-center justify-center">
-            {getIntentIcon(intent.status)}
-          </div>
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-900">
-                {getIntentLabel(intent.status, intent.osc.name)}
-              </span>
-              <span className="text-xs text-gray-500">
-                {new Date(intent.updated_at).toLocaleDateString('pt-BR', {
-                  day: '2-digit',
-                  month: '2-digit',
-                  hour: '2-digit',
-                  minute: '2-digit',
-                })}
-              </span>
-            </div>
-          </div>
-        </div>
-      ))}
-    </div>
-  );
-};
-
-const PackageItem = ({ package: pkg }: { package: PackageInfo }) => {
-  const getExpiryStatus = () => {
-    const expiresAt = new Date(pkg.expires_at);
-    const now = new Date();
-    const diffMs = expiresAt.getTime() - now.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-    
-    if (diffMs <= 0) {
-      return { status: 'expired', label: 'Vencido', color: 'bg-red-100 text-red-800' };
-    } else if (diffHours <= 48) {
-      return { status: 'expiring', label: 'Perto de vencer', color: 'bg-yellow-100 text-yellow-800' };
-    }
-    return null;
-  };
-
-  const formatExpiryDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('pt-BR', {
-      day: '2-digit',
-      month: '2-digit',
-    });
-  };
-
-  const expiryStatus = getExpiryStatus();
-
-  return (
-    <div className="bg-white rounded-lg border border-gray-200 p-3">
-      <div className="flex items-start justify-between mb-2">
-        <div className="flex-1 min-w-0">
-          <h6 className="text-sm font-medium text-gray-900 truncate">{pkg.item.name}</h6>
-          <p className="text-xs text-gray-500">{pkg.item.description}</p>
-          <p className="text-xs text-gray-400 mt-1">Código: {pkg.label_code}</p>
-        </div>
-        <div className="text-right flex-shrink-0 ml-2">
-          <div className="text-sm font-bold text-gray-900">{pkg.total_kg.toFixed(1)} kg</div>
-          <div className="text-xs text-gray-500">
-            {pkg.quantity} unidades
-          </div>
-        </div>
-      </div>
-      
-      <div className="flex items-center justify-between">
-        <span className="text-xs text-gray-500">
-          Validade: {formatExpiryDate(pkg.expires_at)}
-        </span>
-        {expiryStatus && (
-          <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${expiryStatus.color}`}>
-            <AlertCircle className="h-3 w-3 mr-1" />
-            {expiryStatus.label}
-          </span>
-        )}
-      </div>
-    </div>
-  );
-};
-
-const RedirectModal = ({ 
-  isOpen, 
-  onClose, 
-  donationId 
-}: { 
-  isOpen: boolean; 
-  onClose: () => void; 
-  donationId: string; 
-}) => {
-  if (!isOpen) return null;
-
-  return (
-    <div className="fixed inset-0 z-50 overflow-y-auto">
-      <div className="flex items-center justify-center min-h-screen px-4 py-8">
-        <div className="fixed inset-0 bg-gray-500/75" onClick={onClose} />
-        
-        <div className="relative bg-white rounded-xl shadow-xl max-w-md w-full">
-          {/* Header */}
-          <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 rounded-t-xl">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
-                  <TrendingUp className="w-5 h-5 text-white" />
-                </div>
-                <div>
-                  <h3 className="text-lg font-semibold text-white">Redirecionar Doação</h3>
-                  <p className="text-blue-100 text-sm">#{donationId.slice(-8)}</p>
-                </div>
-              </div>
-              <button
-                onClick={onClose}
-                className="text-white/80 hover:text-white p-2 hover:bg-white/10 rounded-lg transition-colors"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-          </div>
-          
-          {/* Content */}
-          <div className="p-6 text-center">
-            <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Package className="w-8 h-8 text-blue-600" />
-            </div>
-            <h4 className="text-xl font-semibold text-gray-900 mb-2">
-              Em Implementação
-            </h4>
-            <p className="text-gray-600 mb-6">
-              A funcionalidade de redirecionamento de doações está sendo desenvolvida e estará disponível em breve.
-            </p>
-            <button
-              onClick={onClose}
-              className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Entendi
-            </button>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-};
-
 const EmptyDonationsState = () => (
   <div className="text-center py-16">
     <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
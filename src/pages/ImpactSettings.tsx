@@ -0,0 +1,276 @@
+import { FormEvent, useState } from 'react';
+import { Leaf, Plus, Trash2 } from 'lucide-react';
+import { useCreateImpactFactors, useImpactFactors } from '../hooks/useImpactFactors';
+import { formatDateTime } from '../lib/donations';
+import { ImpactFactors } from '../lib/impact';
+import { toDay } from '../lib/period';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+type CategoryRow = { category: string; factor: string };
+
+type FactorsForm = {
+  kgPerMeal: string;
+  mealsPerBeneficiary: string;
+  defaultCo2e: string;
+  categories: CategoryRow[];
+  validFrom: string; // yyyy-mm-dd
+  notes: string;
+};
+
+/* ------------------------------------------------------------------ */
+/* Utils                                                               */
+/* ------------------------------------------------------------------ */
+// Parte da versão mais recente, para que a nova seja só um ajuste
+const formFrom = (latest: ImpactFactors | undefined): FactorsForm => ({
+  kgPerMeal: latest ? String(latest.kg_per_meal) : '',
+  mealsPerBeneficiary: latest?.meals_per_beneficiary ? String(latest.meals_per_beneficiary) : '',
+  defaultCo2e: latest ? String(latest.default_co2e_per_kg) : '',
+  categories: Object.entries(latest?.co2e_per_kg_by_category ?? {}).map(([category, factor]) => ({
+    category,
+    factor: String(factor),
+  })),
+  validFrom: toDay(new Date()),
+  notes: '',
+});
+
+const toNumber = (value: string) => Number(value.replace(',', '.'));
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function ImpactSettings() {
+  const { data: versions, isLoading } = useImpactFactors();
+  const createMutation = useCreateImpactFactors();
+  const latest = versions?.[versions.length - 1];
+  const [form, setForm] = useState<FactorsForm | null>(null);
+
+  // O formulário só é montado depois que as versões carregam
+  const current = form ?? formFrom(latest);
+  const update = (patch: Partial<FactorsForm>) => setForm({ ...current, ...patch });
+  const updateCategory = (index: number, patch: Partial<CategoryRow>) =>
+    update({ categories: current.categories.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  // Versões retroativas mudariam relatórios já emitidos: só vale de hoje em diante
+  const minValidFrom = [toDay(new Date()), latest ? toDay(new Date(latest.valid_from)) : '']
+    .reduce((a, b) => (a > b ? a : b));
+
+  const kgPerMeal = toNumber(current.kgPerMeal);
+  const mealsPerBeneficiary = current.mealsPerBeneficiary.trim() ? toNumber(current.mealsPerBeneficiary) : null;
+  const defaultCo2e = toNumber(current.defaultCo2e);
+  const categories = current.categories.filter(c => c.category.trim());
+  const errors = [
+    !(kgPerMeal > 0) && 'Kg por refeição deve ser maior que zero',
+    mealsPerBeneficiary !== null && !(mealsPerBeneficiary > 0) && 'Refeições por pessoa deve ser maior que zero',
+    !(defaultCo2e >= 0) && 'Fator padrão de CO₂e inválido',
+    categories.some(c => !(toNumber(c.factor) >= 0)) && 'Há fatores de categoria inválidos',
+    new Set(categories.map(c => c.category.trim())).size !== categories.length && 'Categorias repetidas',
+    !current.validFrom && 'Informe a data de início',
+    current.validFrom && current.validFrom < minValidFrom && 'A data de início não pode ser anterior a hoje nem à versão atual',
+  ].filter((e): e is string => !!e);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (errors.length) return;
+    createMutation.mutate(
+      {
+        kg_per_meal: kgPerMeal,
+        meals_per_beneficiary: mealsPerBeneficiary,
+        default_co2e_per_kg: defaultCo2e,
+        co2e_per_kg_by_category: Object.fromEntries(
+          categories.map(c => [c.category.trim(), toNumber(c.factor)]),
+        ),
+        valid_from: new Date(`${current.validFrom}T00:00:00`).toISOString(),
+        notes: current.notes.trim() || null,
+      },
+      { onSuccess: () => setForm(null) },
+    );
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      {/* ---------- HEADER ---------- */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Leaf className="h-7 w-7 mr-3 text-green-600" />
+          Fatores de Impacto
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Como convertemos kg coletados em refeições, pessoas beneficiadas e CO₂e evitado. Cada alteração gera uma nova
+          versão; coletas antigas continuam calculadas com a versão vigente na época.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* ---------- NOVA VERSÃO ---------- */}
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4 lg:col-span-1"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">
+            Nova versão {latest ? `(atual: v${latest.version})` : ''}
+          </h2>
+          <label className="block text-sm text-gray-700">
+            Kg por refeição
+            <input
+              inputMode="decimal"
+              value={current.kgPerMeal}
+              onChange={(e) => update({ kgPerMeal: e.target.value })}
+              placeholder="0,5"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Refeições por pessoa beneficiada (opcional)
+            <input
+              inputMode="decimal"
+              value={current.mealsPerBeneficiary}
+              onChange={(e) => update({ mealsPerBeneficiary: e.target.value })}
+              placeholder="30"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            CO₂e evitado por kg (padrão)
+            <input
+              inputMode="decimal"
+              value={current.defaultCo2e}
+              onChange={(e) => update({ defaultCo2e: e.target.value })}
+              placeholder="2,5"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <div>
+            <p className="text-sm text-gray-700 mb-2">CO₂e por kg, por categoria de item</p>
+            <div className="space-y-2">
+              {current.categories.map((c, i) => (
+                <div key={i} className="flex items-center space-x-2">
+                  <input
+                    value={c.category}
+                    onChange={(e) => updateCategory(i, { category: e.target.value })}
+                    placeholder="Categoria"
+                    className={inputClass}
+                  />
+                  <input
+                    inputMode="decimal"
+                    value={c.factor}
+                    onChange={(e) => updateCategory(i, { factor: e.target.value })}
+                    placeholder="kg CO₂e"
+                    className={`${inputClass} w-28`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ categories: current.categories.filter((_, j) => j !== i) })}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remover categoria"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => update({ categories: [...current.categories, { category: '', factor: '' }] })}
+              className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar categoria
+            </button>
+          </div>
+
+          <label className="block text-sm text-gray-700">
+            Vale a partir de
+            <input
+              type="date"
+              min={minValidFrom}
+              value={current.validFrom}
+              onChange={(e) => update({ validFrom: e.target.value })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Observações / fonte
+            <textarea
+              rows={2}
+              value={current.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          {errors.length > 0 && form && (
+            <ul className="text-xs text-red-600 list-disc list-inside">
+              {errors.map(e => <li key={e}>{e}</li>)}
+            </ul>
+          )}
+
+          <button
+            type="submit"
+            disabled={createMutation.isPending || errors.length > 0}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {createMutation.isPending ? 'Publicando...' : 'Publicar nova versão'}
+          </button>
+        </form>
+
+        {/* ---------- VERSÕES ---------- */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 lg:col-span-2 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Versões publicadas</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Versão', 'Vale a partir de', 'Kg/refeição', 'Refeições/pessoa', 'CO₂e/kg', 'Categorias', 'Observações'].map(h => (
+                    <th key={h} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {[...(versions ?? [])].reverse().map(v => (
+                  <tr key={v.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900">v{v.version}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{formatDateTime(v.valid_from)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{v.kg_per_meal}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{v.meals_per_beneficiary ?? '—'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-700">{v.default_co2e_per_kg}</td>
+                    <td className="px-6 py-3 text-xs text-gray-600">
+                      {Object.entries(v.co2e_per_kg_by_category).map(([category, factor]) => (
+                        <div key={category}>{category}: {factor}</div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-600">{v.notes ?? '—'}</td>
+                  </tr>
+                ))}
+                {(versions ?? []).length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                      Nenhuma versão publicada ainda
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Filter, Map as MapIcon } from 'lucide-react';
+import { AdminMap, MapLink, MapPoint } from '../components/AdminMap';
+import { useRestaurants } from '../hooks/useRestaurants';
+import { useOSCs } from '../hooks/useOSCs';
+import { RestaurantWithPartners } from '../lib/restaurants';
+import { hasCoords } from '../lib/geo';
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+type MapFilters = {
+  uf: string;
+  city: string;
+  status: '' | RestaurantWithPartners['status'];
+  showRestaurants: boolean;
+  showOSCs: boolean;
+  showLinks: boolean;
+};
+
+const INITIAL_FILTERS: MapFilters = {
+  uf: '',
+  city: '',
+  status: '',
+  showRestaurants: true,
+  showOSCs: true,
+  showLinks: true,
+};
+
+/* ------------------------------------------------------------------ */
+/* Utils                                                               */
+/* ------------------------------------------------------------------ */
+const matchesFilters = (
+  e: { city?: string | null; uf?: string | null; status: MapFilters['status'] },
+  f: MapFilters,
+) =>
+  (!f.uf || e.uf === f.uf) &&
+  (!f.city || e.city === f.city) &&
+  (!f.status || e.status === f.status);
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function MapView() {
+  const navigate = useNavigate();
+  const { data: restaurants, isLoading: loadingRestaurants } = useRestaurants();
+  const { data: oscs, isLoading: loadingOSCs } = useOSCs();
+  const [filters, setFilters] = useState<MapFilters>(INITIAL_FILTERS);
+
+  const update = (patch: Partial<MapFilters>) => setFilters(f => ({ ...f, ...patch }));
+
+  /* -------------------------- opções -------------------------------- */
+  const locations = [...(restaurants ?? []), ...(oscs ?? [])];
+  const ufs = [...new Set(locations.map(l => l.uf).filter((uf): uf is string => !!uf))].sort();
+  const cities = [
+    ...new Set(
+      locations
+        .filter(l => !filters.uf || l.uf === filters.uf)
+        .map(l => l.city)
+        .filter((c): c is string => !!c),
+    ),
+  ].sort();
+
+  /* ------------------------ pontos e linhas -------------------------- */
+  const { points, links } = useMemo(() => {
+    const visibleRestaurants = (restaurants ?? []).filter(r => hasCoords(r) && matchesFilters(r, filters));
+    const visibleOSCs = (oscs ?? []).filter(o => hasCoords(o) && matchesFilters(o, filters));
+    const oscById = new Map(visibleOSCs.map(o => [o.id, o]));
+
+    const points: MapPoint[] = [
+      ...(filters.showRestaurants ? visibleRestaurants : []).map(r => ({
+        id: r.id,
+        kind: 'restaurant' as const,
+        name: r.name,
+        lat: r.lat,
+        lng: r.lng,
+        inactive: r.status === 'inactive',
+      })),
+      ...(filters.showOSCs ? visibleOSCs : []).map(o => ({
+        id: o.id,
+        kind: 'osc' as const,
+        name: o.name,
+        lat: o.lat!,
+        lng: o.lng!,
+        inactive: o.status === 'inactive',
+      })),
+    ];
+
+    // Só liga pontos que estão visíveis nos dois lados
+    const links: MapLink[] = !filters.showLinks || !filters.showRestaurants || !filters.showOSCs
+      ? []
+      : visibleRestaurants.flatMap(r =>
+          (r.partnerships ?? []).flatMap(p => {
+            const osc = oscById.get(p.osc.id);
+            if (!osc) return [];
+            return [{
+              key: `${r.id}:${osc.id}`,
+              from: [r.lat, r.lng] as [number, number],
+              to: [osc.lat!, osc.lng!] as [number, number],
+              favorite: p.is_favorite,
+              label: `${r.name} → ${osc.name} (${p.distance_km.toFixed(1)} km)`,
+            }];
+          }),
+        );
+
+    return { points, links };
+  }, [restaurants, oscs, filters]);
+
+  const restaurantCount = points.filter(p => p.kind === 'restaurant').length;
+  const oscCount = points.length - restaurantCount;
+
+  const selectClass =
+    'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="h-full bg-gray-50 p-6 flex flex-col">
+      {/* ---------- HEADER ---------- */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <MapIcon className="h-7 w-7 mr-3 text-blue-600" />
+          Mapa
+        </h1>
+        <p className="mt-2 text-gray-600">
+          Restaurantes, OSCs e as parcerias entre eles
+        </p>
+      </div>
+
+      {/* ---------- FILTROS ---------- */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-4 flex flex-wrap items-center gap-3">
+        <Filter className="h-4 w-4 text-gray-400" />
+        <select
+          value={filters.uf}
+          onChange={(e) => update({ uf: e.target.value, city: '' })}
+          className={selectClass}
+        >
+          <option value="">Todas as UFs</option>
+          {ufs.map(uf => <option key={uf} value={uf}>{uf}</option>)}
+        </select>
+        <select
+          value={filters.city}
+          onChange={(e) => update({ city: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Todas as cidades</option>
+          {cities.map(city => <option key={city} value={city}>{city}</option>)}
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) => update({ status: e.target.value as MapFilters['status'] })}
+          className={selectClass}
+        >
+          <option value="">Todos os status</option>
+          <option value="active">Ativos</option>
+          <option value="invite_sent">Convite enviado</option>
+          <option value="inactive">Inativos</option>
+        </select>
+
+        <LayerToggle
+          label="Restaurantes"
+          color="bg-blue-600"
+          checked={filters.showRestaurants}
+          onChange={(v) => update({ showRestaurants: v })}
+        />
+        <LayerToggle
+          label="OSCs"
+          color="bg-green-600"
+          checked={filters.showOSCs}
+          onChange={(v) => update({ showOSCs: v })}
+        />
+        <LayerToggle
+          label="Parcerias"
+          color="bg-blue-300"
+          checked={filters.showLinks}
+          onChange={(v) => update({ showLinks: v })}
+        />
+
+        <div className="ml-auto text-sm text-gray-500">
+          {restaurantCount} restaurante(s) · {oscCount} OSC(s) · {links.length} parceria(s)
+        </div>
+      </div>
+
+      {/* ---------- MAPA ---------- */}
+      <div className="relative flex-1 min-h-[480px] bg-white rounded-xl shadow-sm border border-gray-200">
+        {(loadingRestaurants || loadingOSCs) && (
+          <div className="absolute inset-0 z-[1000] flex items-center justify-center bg-white/60 rounded-xl">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+          </div>
+        )}
+        <AdminMap
+          points={points}
+          links={links}
+          onSelect={(p) => navigate(p.kind === 'restaurant' ? `/restaurants/${p.id}` : `/oscs/${p.id}`)}
+        />
+        <div className="absolute bottom-4 left-4 z-[1000] bg-white/90 rounded-lg shadow px-3 py-2 text-xs text-gray-600 space-y-1">
+          <LegendItem color="bg-red-500" label="Parceria favorita" line />
+          <LegendItem color="bg-gray-400" label="Inativo" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const LayerToggle = ({
+  label,
+  color,
+  checked,
+  onChange,
+}: {
+  label: string;
+  color: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) => (
+  <label className="inline-flex items-center text-sm text-gray-700">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+    />
+    <span className={`w-2.5 h-2.5 rounded-full ${color} mr-1.5`} />
+    {label}
+  </label>
+);
+
+const LegendItem = ({ color, label, line }: { color: string; label: string; line?: boolean }) => (
+  <div className="flex items-center">
+    <span className={`${line ? 'w-4 h-0.5' : 'w-2.5 h-2.5 rounded-full'} ${color} mr-2`} />
+    {label}
+  </div>
+);
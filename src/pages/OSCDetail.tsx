@@ -0,0 +1,428 @@
+import { ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BarChart3,
+  Building2,
+  CheckCircle,
+  Clock,
+  Heart,
+  Mail,
+  MapPin,
+  Phone,
+  Scale,
+  User,
+  Users,
+  XCircle,
+} from 'lucide-react';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { WeeklyKgChart } from '../components/WeeklyKgChart';
+import { ImpactSummary } from '../components/ImpactSummary';
+import { OSC } from '../lib/oscs';
+import { AdminDonation, DonationIntent, formatDateTime, formatKm } from '../lib/donations';
+import { getDonationStats, getResponseCounts30, getWeeklyKg } from '../lib/donationStats';
+
+// Limite só do que cada coluna renderiza; contagens usam todas as ofertas
+const INTENTS_LIMIT = 500;
+
+/* ------------------------------------------------------------------ */
+/* Tipos                                                               */
+/* ------------------------------------------------------------------ */
+type OSCPartnership = {
+  created_at: string;
+  is_favorite: boolean;
+  distance_km: number | null;
+  restaurant: {
+    id: string;
+    name: string;
+    city: string | null;
+    uf: string | null;
+  } | null;
+};
+
+type OSCIntent = Omit<DonationIntent, 'osc'> & { donation_id: string };
+
+type IntentGroup = 'accepted' | 'denied' | 'expired';
+
+/* ------------------------------------------------------------------ */
+/* Hooks                                                               */
+/* ------------------------------------------------------------------ */
+function useOSC(oscId: string | undefined) {
+  return useQuery<OSC | null>({
+    queryKey: ['oscs', oscId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('osc')
+        .select('*')
+        .eq('id', oscId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!oscId,
+  });
+}
+
+function useOSCPartnerships(oscId: string | undefined) {
+  return useQuery<OSCPartnership[]>({
+    queryKey: ['partnerships', 'osc', oscId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('partnerships')
+        .select(`
+          created_at,
+          is_favorite,
+          distance_km,
+          restaurant:restaurant_id (
+            id,
+            name,
+            city,
+            uf
+          )
+        `)
+        .eq('osc_id', oscId);
+      if (error) throw error;
+
+      // Favoritas primeiro, depois pela distância
+      return (data as unknown as OSCPartnership[]).sort((a, b) => {
+        if (a.is_favorite !== b.is_favorite) return a.is_favorite ? -1 : 1;
+        return (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity);
+      });
+    },
+    enabled: !!oscId,
+  });
+}
+
+function useOSCIntents(oscId: string | undefined) {
+  return useQuery<OSCIntent[]>({
+    queryKey: ['admin', 'osc-intents', oscId],
+    queryFn: async () => {
+      return fetchAllRows<OSCIntent>((from, to) =>
+        supabase
+          .from('donation_intents')
+          .select('id, donation_id, status, created_at, updated_at, expires_at, reason')
+          .eq('osc_id', oscId)
+          .order('created_at', { ascending: false })
+          .order('id')
+          .range(from, to),
+      );
+    },
+    enabled: !!oscId,
+  });
+}
+
+// Fica sob ['admin', 'donations-history'] para ser invalidada pelo Realtime
+function useOSCDonations(oscId: string | undefined) {
+  return useQuery<AdminDonation[]>({
+    queryKey: ['admin', 'donations-history', 'osc', oscId],
+    queryFn: async () => {
+      return fetchAllRows<AdminDonation>((from, to) =>
+        supabase
+          .from('v_admin_donations')
+          .select('*')
+          .eq('osc_id', oscId)
+          .eq('donation_status', 'picked_up')
+          .order('created_at', { ascending: false })
+          .order('donation_id')
+          .range(from, to),
+      );
+    },
+    enabled: !!oscId,
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function OSCDetail() {
+  const { oscId } = useParams<{ oscId: string }>();
+  const { data: osc, isLoading } = useOSC(oscId);
+  const { data: partnerships } = useOSCPartnerships(oscId);
+  const { data: intents, isLoading: loadingIntents } = useOSCIntents(oscId);
+  const { data: donations } = useOSCDonations(oscId);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (!osc) {
+    return <OSCNotFound />;
+  }
+
+  const { accepted_30, denied_30 } = getResponseCounts30(intents ?? []);
+  const receivedKg = getDonationStats(donations ?? []).donatedKg;
+  const weekly = getWeeklyKg(donations ?? []);
+  const grouped: Record<IntentGroup, OSCIntent[]> = {
+    accepted: (intents ?? []).filter(i => i.status === 'accepted'),
+    denied: (intents ?? []).filter(i => i.status === 'denied'),
+    expired: (intents ?? []).filter(i => i.status === 'expired'),
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-full mx-auto">
+        {/* ---------- HEADER ---------- */}
+        <Link
+          to="/oscs"
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-3"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          OSCs
+        </Link>
+        <div className="flex items-start space-x-4 mb-8">
+          <div className="h-14 w-14 rounded-full bg-green-100 flex items-center justify-center flex-shrink-0">
+            <Building2 className="h-7 w-7 text-green-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{osc.name}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-gray-600">
+              {osc.responsible_name && (
+                <span className="flex items-center">
+                  <User className="h-4 w-4 mr-1 text-gray-400" />
+                  {osc.responsible_name}
+                </span>
+              )}
+              {osc.email && (
+                <span className="flex items-center">
+                  <Mail className="h-4 w-4 mr-1 text-gray-400" />
+                  {osc.email}
+                </span>
+              )}
+              {osc.phone && (
+                <span className="flex items-center">
+                  <Phone className="h-4 w-4 mr-1 text-gray-400" />
+                  {osc.phone}
+                </span>
+              )}
+              {osc.city && (
+                <span className="flex items-center">
+                  <MapPin className="h-4 w-4 mr-1 text-gray-400" />
+                  {osc.street}, {osc.number} — {osc.city}/{osc.uf}
+                </span>
+              )}
+              {osc.cnpj && <span>CNPJ: {osc.cnpj}</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* ---------- MÉTRICAS ---------- */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <StatCard
+            icon={<Scale className="h-8 w-8 text-green-600" />}
+            label="Kg recebidos"
+            value={`${receivedKg.toFixed(1)} kg`}
+          />
+          <StatCard
+            icon={<Users className="h-8 w-8 text-blue-600" />}
+            label="Restaurantes parceiros"
+            value={String(partnerships?.length ?? 0)}
+          />
+          <StatCard
+            icon={<CheckCircle className="h-8 w-8 text-green-600" />}
+            label="Aceites (30 dias)"
+            value={String(accepted_30)}
+          />
+          <StatCard
+            icon={<XCircle className="h-8 w-8 text-red-600" />}
+            label="Recusas (30 dias)"
+            value={String(denied_30)}
+          />
+        </div>
+
+        {/* ---------- IMPACTO ---------- */}
+        <div className="mb-8">
+          <ImpactSummary donations={donations ?? []} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* ---------- COLUNA PRINCIPAL ---------- */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Série semanal */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <BarChart3 className="h-4 w-4 mr-2 text-green-500" />
+                Kg recebidos por semana
+              </h2>
+              <WeeklyKgChart data={weekly} color="#16a34a" />
+            </div>
+
+            {/* Ofertas */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <Clock className="h-4 w-4 mr-2 text-blue-500" />
+                Respostas às ofertas ({intents?.length ?? 0})
+              </h2>
+              {loadingIntents ? (
+                <div className="flex justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <IntentColumn
+                    title="Aceitas"
+                    icon={<CheckCircle className="h-4 w-4 text-green-600" />}
+                    intents={grouped.accepted}
+                  />
+                  <IntentColumn
+                    title="Recusadas"
+                    icon={<XCircle className="h-4 w-4 text-red-600" />}
+                    intents={grouped.denied}
+                  />
+                  <IntentColumn
+                    title="Expiradas"
+                    icon={<Clock className="h-4 w-4 text-gray-500" />}
+                    intents={grouped.expired}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* ---------- COLUNA LATERAL ---------- */}
+          <div className="space-y-6">
+            <div className="bg-gray-50 rounded-xl border border-gray-200 p-4">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <Users className="h-4 w-4 mr-2 text-blue-500" />
+                Restaurantes parceiros ({partnerships?.length ?? 0})
+              </h2>
+              {partnerships && partnerships.length > 0 ? (
+                <div className="space-y-3">
+                  {partnerships.map((p, idx) => (
+                    <PartnerRestaurantCard key={p.restaurant?.id ?? idx} partnership={p} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Nenhuma parceria</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const StatCard = ({ icon, label, value }: { icon: ReactNode; label: string; value: string }) => (
+  <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+    <div className="flex items-center">
+      <div className="flex-shrink-0">{icon}</div>
+      <div className="ml-4">
+        <p className="text-sm font-medium text-gray-500">{label}</p>
+        <p className="text-2xl font-bold text-gray-900">{value}</p>
+      </div>
+    </div>
+  </div>
+);
+
+const PartnerRestaurantCard = ({ partnership }: { partnership: OSCPartnership }) => (
+  <div className="bg-white rounded-lg border border-gray-200 p-4">
+    <div className="flex items-start justify-between">
+      <div className="min-w-0">
+        {partnership.restaurant ? (
+          <Link
+            to={`/restaurants/${partnership.restaurant.id}`}
+            className="font-medium text-sm text-gray-900 hover:text-blue-600 truncate block"
+          >
+            {partnership.restaurant.name}
+          </Link>
+        ) : (
+          <span className="font-medium text-sm text-gray-400">Restaurante removido</span>
+        )}
+        {partnership.restaurant?.city && (
+          <div className="flex items-center text-xs text-gray-600 mt-1">
+            <MapPin className="w-3 h-3 mr-1" />
+            {partnership.restaurant.city}, {partnership.restaurant.uf}
+          </div>
+        )}
+      </div>
+      {partnership.is_favorite && (
+        <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-red-100 text-red-700 flex-shrink-0">
+          <Heart className="w-3 h-3 mr-1 fill-current" />
+          Favorita
+        </span>
+      )}
+    </div>
+    <div className="flex items-center justify-between text-xs mt-3 pt-3 border-t border-gray-100">
+      <span className="text-gray-500">
+        Distância:{' '}
+        <span className="font-medium text-gray-900">
+          {partnership.distance_km !== null ? formatKm(Number(partnership.distance_km)) : '—'}
+        </span>
+      </span>
+      <span className="text-gray-500">Desde {new Date(partnership.created_at).toLocaleDateString('pt-BR')}</span>
+    </div>
+  </div>
+);
+
+const IntentColumn = ({
+  title,
+  icon,
+  intents,
+}: {
+  title: string;
+  icon: ReactNode;
+  intents: OSCIntent[];
+}) => (
+  <div className="bg-gray-50 rounded-lg border border-gray-200">
+    <div className="px-3 py-2 border-b border-gray-200 flex items-center justify-between">
+      <span className="flex items-center text-sm font-medium text-gray-900">
+        <span className="mr-2">{icon}</span>
+        {title}
+      </span>
+      <span className="text-xs text-gray-500">{intents.length}</span>
+    </div>
+    {intents.length > INTENTS_LIMIT && (
+      <p className="px-3 py-1 text-xs text-gray-500 border-b border-gray-200">
+        Mostrando as {INTENTS_LIMIT} mais recentes
+      </p>
+    )}
+    <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+      {intents.length === 0 ? (
+        <p className="px-3 py-6 text-center text-xs text-gray-400">Nenhuma</p>
+      ) : (
+        intents.slice(0, INTENTS_LIMIT).map(intent => (
+          <Link
+            key={intent.id}
+            to={`/donations/${intent.donation_id}`}
+            className="block px-3 py-2 hover:bg-white transition-colors"
+          >
+            <div className="text-xs font-semibold text-gray-900">#{intent.donation_id.slice(-8)}</div>
+            <div className="text-xs text-gray-500">{formatDateTime(intent.updated_at)}</div>
+            {intent.reason && (
+              <div className="text-xs text-gray-600 italic mt-1">Motivo: {intent.reason}</div>
+            )}
+          </Link>
+        ))
+      )}
+    </div>
+  </div>
+);
+
+const OSCNotFound = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+    <div className="text-center">
+      <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Building2 className="w-8 h-8 text-gray-400" />
+      </div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">OSC não encontrada</h3>
+      <p className="text-gray-500 max-w-sm mx-auto mb-6">
+        Verifique se o link está correto ou se a OSC ainda existe.
+      </p>
+      <Link
+        to="/oscs"
+        className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Voltar para OSCs
+      </Link>
+    </div>
+  </div>
+);
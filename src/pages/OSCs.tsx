@@ -1,6 +1,5 @@
 import React, { useState } from 'react';
 import {
-  useQuery,
   useMutation,
   useQueryClient,
 } from '@tanstack/react-query';
@@ -14,33 +13,28 @@ import {
   User,
   Calendar,
   Heart,
+  Pencil,
+  Power,
+  Send,
+  Upload,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { NO_PERMISSION_MESSAGE } from '../lib/permissions';
 import { OSCModal } from '../components/OSCModal';
+import { EntityStatusModal } from '../components/EntityStatusModal';
+import { OSCImportModal } from '../components/OSCImportModal';
+import { useEntityStatusActions } from '../hooks/useEntityStatus';
+import { useOSCs } from '../hooks/useOSCs';
 import toast from 'react-hot-toast';
-import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { invokeFunction } from '../lib/functions';
+import { OSC } from '../lib/oscs';
+import { onlyDigits } from '../lib/validation';
+import { formatDateTime } from '../lib/donations';
 
 /* ------------------------------------------------------------------ */
 /* Tipos                                                               */
 /* ------------------------------------------------------------------ */
-interface OSC {
-  id: string;
-  name: string;
-  cnpj?: string;
-  email?: string;
-  phone: string;
-  responsible_name?: string;
-  street?: string;
-  number?: string;
-  city?: string;
-  uf?: string;
-  cep?: string;
-  status: 'active' | 'inactive' | 'invite_sent';
-  added_at: string;
-  updated_at: string;
-}
-
 interface CreateOSCPayload {
   name: string;
   cnpj?: string;
@@ -54,66 +48,35 @@ interface CreateOSCPayload {
   phone?: string;
 }
 
+type UpdateOSCPayload = CreateOSCPayload & {
+  id: string;
+  addressChanged: boolean;
+};
+
 /* ------------------------------------------------------------------ */
 /* Componente                                                          */
 /* ------------------------------------------------------------------ */
 export function OSCs() {
-  const { session } = useAuth();
+  const { session, can } = useAuth();
+  const canManage = can('entities.manage');
   const qc = useQueryClient();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingOSC, setEditingOSC] = useState<OSC | null>(null);
+  const [statusTarget, setStatusTarget] = useState<OSC | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
 
   /* ----------------------- Query: lista ----------------------- */
-  const { data: oscs, isLoading } = useQuery<OSC[]>({
-    queryKey: ['oscs'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('osc')
-        .select('*')
-        .order('added_at', { ascending: false });
+  const { data: oscs, isLoading } = useOSCs();
 
-      if (error) throw error;
-      return data as OSC[];
-    },
-  });
+  /* ------------- Mutations: status e reenvio de convite ------------- */
+  const { setStatusMutation, resendInviteMutation } = useEntityStatusActions('osc');
 
   /* ---------------------- Mutation: create OSC -------------------- */
   const createOSCMutation = useMutation({
-    mutationFn: async (payload: CreateOSCPayload) => {
-      try {
-        const { error } = await supabase.functions.invoke('cf_create_osc', {
-          body: payload,
-          headers: { Authorization: `Bearer ${session?.access_token}` },
-        })
-
-        if (error) {
-          // Erro retornado pela Edge Function
-          if (error instanceof FunctionsHttpError) {
-            const status = error.context.status;
-            console.log('Edge Function HTTP status:', status);
-            throw { status };
-          }
-
-          // Erros de rede / relay
-          if (error instanceof FunctionsRelayError || error instanceof FunctionsFetchError) {
-            console.log('Network/Relay error → usando 503');
-            throw { status: 503, message: error.message };
-          }
-
-          // Qualquer outro tipo de erro
-          throw error;
-        }
-
-        // Sucesso (2xx)
-        return {}
-      } catch (rawErr: any) {
-        // Garante que sempre logamos o status antes de reprojetar
-        const status = rawErr.status ?? 500;
-        console.log('Mutation error status (catch):', status);
-        throw rawErr;
-      }
-    },
+    mutationFn: (payload: CreateOSCPayload) =>
+      invokeFunction('cf_create_osc', payload, session?.access_token),
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['oscs'] })
       toast.success('OSC criada com sucesso!')
@@ -121,9 +84,35 @@ export function OSCs() {
     },
   })
 
+  /* ---------------------- Mutation: update OSC -------------------- */
+  // Parcerias exibem nome/endereço da OSC, por isso a lista de restaurantes
+  // também é recarregada
+  const updateOSCMutation = useMutation({
+    mutationFn: (payload: UpdateOSCPayload) =>
+      invokeFunction('cf_update_osc', payload, session?.access_token),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['oscs'] })
+      qc.invalidateQueries({ queryKey: ['restaurants'] })
+      toast.success('OSC atualizada com sucesso!')
+      setEditingOSC(null)
+    },
+  })
+
   /* helper para o modal (async) */
-  const handleCreateOSC = (data: CreateOSCPayload) =>
-    createOSCMutation.mutateAsync(data);
+  const handleSubmitOSC = (data: CreateOSCPayload) => {
+    if (!editingOSC) return createOSCMutation.mutateAsync(data);
+
+    const addressChanged =
+      onlyDigits(data.cep) !== onlyDigits(editingOSC.cep ?? '') ||
+      data.number !== (editingOSC.number ?? '');
+    return updateOSCMutation.mutateAsync({ ...data, id: editingOSC.id, addressChanged });
+  };
+
+  /* abrir modal de edição */
+  const handleOpenEdit = (osc: OSC) => {
+    updateOSCMutation.reset();
+    setEditingOSC(osc);
+  };
 
   /* filtrar OSCs por busca */
   const filteredOSCs = oscs?.filter(osc =>
@@ -153,16 +142,29 @@ export function OSCs() {
               Gerencie as organizações sociais cadastradas na plataforma
             </p>
           </div>
-          <button
-            onClick={() => {
-              createOSCMutation.reset();
-              setIsModalOpen(true);
-            }}
-            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Nova OSC
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              disabled={!canManage}
+              title={canManage ? undefined : NO_PERMISSION_MESSAGE}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Importar planilha
+            </button>
+            <button
+              onClick={() => {
+                createOSCMutation.reset();
+                setIsModalOpen(true);
+              }}
+              disabled={!canManage}
+              title={canManage ? undefined : NO_PERMISSION_MESSAGE}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Nova OSC
+            </button>
+          </div>
         </div>
 
         {/* ---------- STAT CARDS ---------- */}
@@ -198,7 +200,7 @@ export function OSCs() {
           <div>
             <table className="w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
-                {['OSC & Contato', 'Responsável', 'Endereço', 'Status', 'Adicionado em'].map(h => (
+                {['OSC & Contato', 'Responsável', 'Endereço', 'Status', 'Adicionado em', ''].map(h => (
                   <th
                     key={h}
                     className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
@@ -217,7 +219,12 @@ export function OSCs() {
                           <Building2 className="h-5 w-5 text-green-600" />
                         </div>
                         <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{osc.name}</div>
+                          <Link
+                            to={`/oscs/${osc.id}`}
+                            className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {osc.name}
+                          </Link>
                           <div className="mt-1 space-y-1">
                             {osc.email && (
                               <div className="flex items-center text-sm text-gray-600">
@@ -274,6 +281,11 @@ export function OSCs() {
                     {/* Status */}
                     <td className="px-6 py-6">
                       <StatusPill status={osc.status} />
+                      {osc.status === 'invite_sent' && osc.invite_sent_at && (
+                        <div className="mt-1 text-xs text-yellow-700">
+                          Último convite: {formatDateTime(osc.invite_sent_at)}
+                        </div>
+                      )}
                     </td>
 
                     {/* Adicionado em */}
@@ -289,6 +301,49 @@ export function OSCs() {
                         })}
                       </div>
                     </td>
+
+                    {/* Ações */}
+                    <td className="px-6 py-6 text-right space-x-2 whitespace-nowrap">
+                      {canManage ? (
+                        <>
+                          <button
+                            onClick={() => handleOpenEdit(osc)}
+                            className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                            title="Editar OSC"
+                          >
+                            <Pencil className="h-3 w-3 mr-1" />
+                            Editar
+                          </button>
+                          {osc.status === 'invite_sent' && (
+                            <button
+                              onClick={() => resendInviteMutation.mutate(osc.id)}
+                              disabled={resendInviteMutation.isPending && resendInviteMutation.variables === osc.id}
+                              className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-yellow-700 bg-yellow-50 rounded-md hover:bg-yellow-100 disabled:opacity-50 transition-colors"
+                              title="Reenviar convite"
+                            >
+                              <Send className="h-3 w-3 mr-1" />
+                              {resendInviteMutation.isPending && resendInviteMutation.variables === osc.id
+                                ? 'Enviando...'
+                                : 'Reenviar convite'}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setStatusTarget(osc)}
+                            className={`inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                              osc.status === 'inactive'
+                                ? 'text-green-700 bg-green-50 hover:bg-green-100'
+                                : 'text-red-600 bg-red-50 hover:bg-red-100'
+                            }`}
+                            title={osc.status === 'inactive' ? 'Reativar OSC' : 'Desativar OSC'}
+                          >
+                            <Power className="h-3 w-3 mr-1" />
+                            {osc.status === 'inactive' ? 'Reativar' : 'Desativar'}
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-400">Somente leitura</span>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -314,24 +369,45 @@ export function OSCs() {
                 </div>
               </div>
             ) : (
-              <EmptyState onAdd={() => {
-                createOSCMutation.reset();
-                setIsModalOpen(true);
-              }} />
+              <EmptyState
+                onAdd={canManage ? () => {
+                  createOSCMutation.reset();
+                  setIsModalOpen(true);
+                } : undefined}
+              />
             )
           )}
         </div>
       </div>
 
-      {/* ---------- MODAL ---------- */}
+      {/* ---------- MODAIS ---------- */}
+      <OSCImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
+      <EntityStatusModal
+        entity="osc"
+        target={statusTarget}
+        onClose={() => setStatusTarget(null)}
+        onConfirm={() => {
+          if (!statusTarget) return;
+          setStatusMutation.mutate(
+            { id: statusTarget.id, status: statusTarget.status === 'inactive' ? 'active' : 'inactive' },
+            { onSuccess: () => setStatusTarget(null) },
+          );
+        }}
+        isLoading={setStatusMutation.isPending}
+      />
+
       <OSCModal
-        isOpen={isModalOpen}
+        isOpen={isModalOpen || !!editingOSC}
+        osc={editingOSC}
         onClose={() => {
           createOSCMutation.reset();
+          updateOSCMutation.reset();
           setIsModalOpen(false);
+          setEditingOSC(null);
         }}
-        onSubmit={handleCreateOSC}
-        isLoading={createOSCMutation.isPending}
+        onSubmit={handleSubmitOSC}
+        isLoading={createOSCMutation.isPending || updateOSCMutation.isPending}
       />
     </div>
   );
@@ -376,21 +452,25 @@ const StatusPill = ({ status }: { status: OSC['status'] }) => {
   );
 };
 
-const EmptyState = ({ onAdd }: { onAdd: () => void }) => (
+const EmptyState = ({ onAdd }: { onAdd?: () => void }) => (
   <div className="text-center py-12">
     <Building2 className="mx-auto h-12 w-12 text-gray-400" />
     <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhuma OSC</h3>
-    <p className="mt-1 text-sm text-gray-500">
-      Comece criando uma nova organização social.
-    </p>
-    <div className="mt-6">
-      <button
-        onClick={onAdd}
-        className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
-      >
-        <Plus className="h-4 w-4 mr-2" />
-        Nova OSC
-      </button>
-    </div>
+    {onAdd && (
+      <>
+        <p className="mt-1 text-sm text-gray-500">
+          Comece criando uma nova organização social.
+        </p>
+        <div className="mt-6">
+          <button
+            onClick={onAdd}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Nova OSC
+          </button>
+        </div>
+      </>
+    )}
   </div>
 );
\ No newline at end of file
@@ -0,0 +1,322 @@
+import { ReactNode, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BarChart3,
+  Building2,
+  CheckCircle,
+  Clock,
+  Mail,
+  MapPin,
+  Package,
+  Phone,
+  Scale,
+  Trash2,
+  TrendingUp,
+  Users,
+} from 'lucide-react';
+import { fetchAllRows, supabase } from '../lib/supabase';
+import { StatusBadge } from '../components/DonationCard';
+import { PartnershipCard } from '../components/PartnershipCard';
+import { RemovalTarget, RemovePartnershipModal } from '../components/RemovePartnershipModal';
+import { WeeklyKgChart } from '../components/WeeklyKgChart';
+import { ImpactSummary } from '../components/ImpactSummary';
+import { usePartnershipActions } from '../hooks/usePartnershipActions';
+import { RestaurantWithPartners } from '../lib/restaurants';
+import { AdminDonation, formatDateTime, getTotalKg } from '../lib/donations';
+import {
+  formatDuration,
+  formatPercent,
+  getDonationStats,
+  getWeeklyKg,
+} from '../lib/donationStats';
+
+// Limite só da lista renderizada; os indicadores usam todas as doações
+const DONATIONS_LIMIT = 500;
+
+/* ------------------------------------------------------------------ */
+/* Hooks                                                               */
+/* ------------------------------------------------------------------ */
+function useRestaurant(restaurantId: string | undefined) {
+  return useQuery<RestaurantWithPartners | null>({
+    queryKey: ['restaurants', restaurantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('v_restaurants_partners')
+        .select('*')
+        .eq('id', restaurantId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!restaurantId,
+  });
+}
+
+// Fica sob ['admin', 'donations-history'] para ser invalidada pelo Realtime
+function useRestaurantDonations(restaurantId: string | undefined) {
+  return useQuery<AdminDonation[]>({
+    queryKey: ['admin', 'donations-history', 'restaurant', restaurantId],
+    queryFn: async () => {
+      return fetchAllRows<AdminDonation>((from, to) =>
+        supabase
+          .from('v_admin_donations')
+          .select('*')
+          .eq('restaurant_id', restaurantId)
+          .order('created_at', { ascending: false })
+          .order('donation_id')
+          .range(from, to),
+      );
+    },
+    enabled: !!restaurantId,
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Componente Principal                                                */
+/* ------------------------------------------------------------------ */
+export function RestaurantDetail() {
+  const { restaurantId } = useParams<{ restaurantId: string }>();
+  const { data: restaurant, isLoading } = useRestaurant(restaurantId);
+  const { data: donations, isLoading: loadingDonations } = useRestaurantDonations(restaurantId);
+  const { toggleFavoriteMutation, removePartnershipMutation } = usePartnershipActions();
+  const [removalTarget, setRemovalTarget] = useState<RemovalTarget | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (!restaurant) {
+    return <RestaurantNotFound />;
+  }
+
+  const stats = getDonationStats(donations ?? []);
+  const weekly = getWeeklyKg(donations ?? []);
+  const partnerships = restaurant.partnerships ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-full mx-auto">
+        {/* ---------- HEADER ---------- */}
+        <Link
+          to="/restaurants"
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 mb-3"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Restaurantes
+        </Link>
+        <div className="flex items-start space-x-4 mb-8">
+          <div className="h-14 w-14 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
+            <Users className="h-7 w-7 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{restaurant.name}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-gray-600">
+              <span className="flex items-center">
+                <Mail className="h-4 w-4 mr-1 text-gray-400" />
+                {restaurant.email}
+              </span>
+              {restaurant.phone && (
+                <span className="flex items-center">
+                  <Phone className="h-4 w-4 mr-1 text-gray-400" />
+                  {restaurant.phone}
+                </span>
+              )}
+              <span className="flex items-center">
+                <MapPin className="h-4 w-4 mr-1 text-gray-400" />
+                {restaurant.street}, {restaurant.number} — {restaurant.city}/{restaurant.uf}
+              </span>
+              {restaurant.cnpj && <span>CNPJ: {restaurant.cnpj}</span>}
+              {restaurant.code && <span>Código: {restaurant.code}</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* ---------- MÉTRICAS ---------- */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
+          <StatCard
+            icon={<Package className="h-8 w-8 text-blue-600" />}
+            label="Doações"
+            value={String(stats.totalDonations)}
+          />
+          <StatCard
+            icon={<Scale className="h-8 w-8 text-green-600" />}
+            label="Kg doados"
+            value={`${stats.donatedKg.toFixed(1)} kg`}
+          />
+          <StatCard
+            icon={<CheckCircle className="h-8 w-8 text-purple-600" />}
+            label="Taxa de aceite"
+            value={formatPercent(stats.acceptanceRate)}
+          />
+          <StatCard
+            icon={<Clock className="h-8 w-8 text-yellow-600" />}
+            label="Tempo médio até aceite"
+            value={formatDuration(stats.avgTimeToAcceptMin)}
+          />
+          <StatCard
+            icon={<Trash2 className="h-8 w-8 text-red-600" />}
+            label="Kg descartados"
+            value={`${stats.discardedKg.toFixed(1)} kg`}
+          />
+        </div>
+
+        {/* ---------- IMPACTO ---------- */}
+        <div className="mb-8">
+          <ImpactSummary donations={donations ?? []} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* ---------- COLUNA PRINCIPAL ---------- */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Série semanal */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <BarChart3 className="h-4 w-4 mr-2 text-blue-500" />
+                Kg doados por semana
+              </h2>
+              <WeeklyKgChart data={weekly} />
+            </div>
+
+            {/* Histórico */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-sm font-medium text-gray-900">
+                  Histórico de Doações ({donations?.length ?? 0})
+                </h2>
+                {donations && donations.length > DONATIONS_LIMIT && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Mostrando as {DONATIONS_LIMIT} mais recentes; os indicadores consideram todas.
+                  </p>
+                )}
+              </div>
+              {loadingDonations ? (
+                <div className="flex justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+                </div>
+              ) : donations && donations.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {donations.slice(0, DONATIONS_LIMIT).map(d => (
+                    <DonationRow key={d.donation_id} donation={d} />
+                  ))}
+                </div>
+              ) : (
+                <p className="px-6 py-12 text-center text-sm text-gray-500">
+                  Este restaurante ainda não fez doações.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* ---------- COLUNA LATERAL ---------- */}
+          <div className="space-y-6">
+            <div className="bg-gray-50 rounded-xl border border-gray-200 p-4">
+              <h2 className="text-sm font-medium text-gray-900 mb-4 flex items-center">
+                <Building2 className="h-4 w-4 mr-2 text-blue-500" />
+                Parcerias ({partnerships.length})
+              </h2>
+              {partnerships.length > 0 ? (
+                <div className="space-y-4">
+                  {partnerships.map(partnership => (
+                    <PartnershipCard
+                      key={partnership.osc.id}
+                      partnership={partnership}
+                      onToggleFavorite={(isFavorite) =>
+                        toggleFavoriteMutation.mutate({ restaurantId: restaurant.id, oscId: partnership.osc.id, isFavorite })
+                      }
+                      onRemove={() => setRemovalTarget({ restaurant, partnership })}
+                      isUpdating={toggleFavoriteMutation.isPending || removePartnershipMutation.isPending}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Nenhuma parceria</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <RemovePartnershipModal
+        target={removalTarget}
+        onClose={() => setRemovalTarget(null)}
+        onConfirm={({ force, replacementOscId }) => {
+          if (!removalTarget) return;
+          removePartnershipMutation.mutate(
+            {
+              restaurantId: removalTarget.restaurant.id,
+              oscId: removalTarget.partnership.osc.id,
+              force,
+              replacementOscId,
+            },
+            { onSuccess: () => setRemovalTarget(null) },
+          );
+        }}
+        isLoading={removePartnershipMutation.isPending}
+      />
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* Sub-componentes                                                     */
+/* ------------------------------------------------------------------ */
+const StatCard = ({ icon, label, value }: { icon: ReactNode; label: string; value: string }) => (
+  <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+    <div className="flex items-center">
+      <div className="flex-shrink-0">{icon}</div>
+      <div className="ml-4">
+        <p className="text-sm font-medium text-gray-500">{label}</p>
+        <p className="text-2xl font-bold text-gray-900">{value}</p>
+      </div>
+    </div>
+  </div>
+);
+
+const DonationRow = ({ donation }: { donation: AdminDonation }) => (
+  <Link
+    to={`/donations/${donation.donation_id}`}
+    className="px-6 py-4 flex items-center justify-between hover:bg-blue-50/30 transition-colors"
+  >
+    <div className="min-w-0">
+      <div className="flex items-center space-x-3">
+        <span className="text-sm font-semibold text-gray-900">#{donation.donation_id.slice(-8)}</span>
+        <StatusBadge status={donation.donation_status} />
+      </div>
+      <div className="flex items-center text-sm text-gray-600 mt-1">
+        <TrendingUp className="h-3 w-3 mr-2 text-blue-500 flex-shrink-0" />
+        <span className="truncate">{donation.osc_name}</span>
+      </div>
+    </div>
+    <div className="flex items-center space-x-8 flex-shrink-0 text-right">
+      <div className="text-sm font-bold text-gray-900">{getTotalKg(donation).toFixed(1)} kg</div>
+      <div className="text-xs text-gray-500 w-32">{formatDateTime(donation.created_at)}</div>
+    </div>
+  </Link>
+);
+
+const RestaurantNotFound = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+    <div className="text-center">
+      <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Users className="w-8 h-8 text-gray-400" />
+      </div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Restaurante não encontrado</h3>
+      <p className="text-gray-500 max-w-sm mx-auto mb-6">
+        Verifique se o link está correto ou se o restaurante ainda existe.
+      </p>
+      <Link
+        to="/restaurants"
+        className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Voltar para Restaurantes
+      </Link>
+    </div>
+  </div>
+);
@@ -1,6 +1,5 @@
 import React, { useState } from 'react';
 import {
-  useQuery,
   useMutation,
   useQueryClient,
 } from '@tanstack/react-query';
@@ -18,54 +17,32 @@ import {
   Calendar,
   TrendingUp,
   Package,
-  Trash2,
+  Pencil,
+  Power,
+  Send,
+  Upload,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { NO_PERMISSION_MESSAGE } from '../lib/permissions';
 import { RestaurantModal } from '../components/RestaurantModal';
+import { EntityStatusModal } from '../components/EntityStatusModal';
+import { RemovalTarget, RemovePartnershipModal } from '../components/RemovePartnershipModal';
+import { RestaurantImportModal } from '../components/RestaurantImportModal';
+import { useEntityStatusActions } from '../hooks/useEntityStatus';
+import { usePartnershipActions } from '../hooks/usePartnershipActions';
+import { useRestaurants } from '../hooks/useRestaurants';
+import { formatDateTime } from '../lib/donations';
 import { NewPartnershipModal } from '../components/NewPartnershipModal';
+import { PartnershipCard } from '../components/PartnershipCard';
 import toast from 'react-hot-toast';
-import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { invokeFunction } from '../lib/functions';
+import { RestaurantWithPartners } from '../lib/restaurants';
+import { onlyDigits } from '../lib/validation';
 
 /* ------------------------------------------------------------------ */
 /* Tipos                                                               */
 /* ------------------------------------------------------------------ */
-interface Partnership {
-  created_at: string;
-  is_favorite: boolean;
-  distance_km: number;
-  osc: {
-    id: string;
-    name: string;
-    street?: string;
-    number?: string;
-    city?: string;
-    uf?: string;
-  };
-}
-
-interface RestaurantWithPartners {
-  id: string;
-  user_id: string;
-  name: string;
-  email: string;
-  phone: string | null;
-  cnpj: string | null;
-  code: string | null;
-  address_full: string | null;
-  street: string | null;
-  number: string | null;
-  city: string | null;
-  uf: string | null;
-  cep: string | null;
-  lat: number;
-  lng: number;
-  status: 'active' | 'inactive' | 'invite_sent';
-  added_at: string;
-  updated_at: string;
-  partnerships: Partnership[];
-}
-
 interface CreateRestaurantPayload {
   name: string;
   emailOwner: string;
@@ -79,120 +56,43 @@ interface CreateRestaurantPayload {
   phone: string;
 }
 
+type UpdateRestaurantPayload = Omit<CreateRestaurantPayload, 'emailOwner'> & {
+  id: string;
+  addressChanged: boolean;
+};
+
 /* ------------------------------------------------------------------ */
 /* Componente                                                          */
 /* ------------------------------------------------------------------ */
 export function Restaurants() {
-  const { session } = useAuth();
+  const { session, can } = useAuth();
+  const canManageEntities = can('entities.manage');
+  const canManagePartnerships = can('partnerships.manage');
   const qc = useQueryClient();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRestaurant, setEditingRestaurant] = useState<RestaurantWithPartners | null>(null);
+  const [statusTarget, setStatusTarget] = useState<RestaurantWithPartners | null>(null);
+  const [removalTarget, setRemovalTarget] = useState<RemovalTarget | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [isPartnershipModalOpen, setIsPartnershipModalOpen] = useState(false);
   const [selectedRestaurantId, setSelectedRestaurantId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [hiddenAccordions, setHiddenAccordions] = useState<Set<string>>(new Set());
 
   /* ----------------------- Query: lista ----------------------- */
-  const { data: restaurants, isLoading } = useQuery<RestaurantWithPartners[]>({
-    queryKey: ['restaurants'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('v_restaurants_partners')
-        .select('*')
-        .order('added_at', { ascending: false });
-
-      if (error) throw error;
-      return data as RestaurantWithPartners[];
-    },
-  });
+  const { data: restaurants, isLoading } = useRestaurants();
 
-  /* ---------------------- Mutation: toggle favorite -------------------- */
-  const toggleFavoriteMutation = useMutation({
-    mutationFn: async ({ restaurantId, oscId, isFavorite }: { restaurantId: string; oscId: string; isFavorite: boolean }) => {
-      // Primeiro, remove favorita de todas as outras
-      if (isFavorite) {
-        await supabase
-          .from('partnerships')
-          .update({ is_favorite: false })
-          .eq('restaurant_id', restaurantId);
-      }
-      
-      // Depois, define a nova favorita
-      const { error } = await supabase
-        .from('partnerships')
-        .update({ is_favorite: isFavorite })
-        .eq('restaurant_id', restaurantId)
-        .eq('osc_id', oscId);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ['restaurants'] });
-      toast.success('Favorita atualizada!');
-    },
-    onError: () => {
-      toast.error('Erro ao atualizar favorita');
-    },
-  });
+  /* ------------- Mutations: status e reenvio de convite ------------- */
+  const { setStatusMutation, resendInviteMutation } = useEntityStatusActions('restaurant');
+
+  /* ---------------- Mutations: favorita e remoção ---------------- */
+  const { toggleFavoriteMutation, removePartnershipMutation } = usePartnershipActions();
 
-  /* ---------------------- Mutation: remove partnership -------------------- */
-  const removePartnershipMutation = useMutation({
-    mutationFn: async ({ restaurantId, oscId }: { restaurantId: string; oscId: string }) => {
-      const { error } = await supabase
-        .from('partnerships')
-        .delete()
-        .eq('restaurant_id', restaurantId)
-        .eq('osc_id', oscId);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ['restaurants'] });
-      toast.success('Parceria removida com sucesso!');
-    },
-    onError: () => {
-      toast.error('Erro ao remover parceria');
-    },
-  });
   /* ---------------------- Mutation: create -------------------- */
   const createRestaurantMutation = useMutation({
-    mutationFn: async (payload: CreateRestaurantPayload) => {
-      try {
-        const { data, error } = await supabase.functions.invoke<{ id: string }>(
-          'cf_create_restaurant',
-          {
-            body: payload,
-            headers: { Authorization: `Bearer ${session?.access_token}` },
-          },
-        );
-
-        if (error) {
-          // Erro retornado pela Edge Function
-          if (error instanceof FunctionsHttpError) {
-            const status = error.context.status;
-            console.log('Edge Function HTTP status:', status);
-            throw { status };
-          }
-
-          // Erros de rede / relay
-          if (error instanceof FunctionsRelayError || error instanceof FunctionsFetchError) {
-            console.log('Network/Relay error → usando 503');
-            throw { status: 503, message: error.message };
-          }
-
-          // Qualquer outro tipo de erro
-          throw error;
-        }
-
-        // Sucesso (2xx)
-        return data ?? {};
-      } catch (rawErr: any) {
-        // Garante que sempre logamos o status antes de reprojetar
-        const status = rawErr.status ?? 500;
-        console.log('Mutation error status (catch):', status);
-        throw rawErr;
-      }
-    },
+    mutationFn: (payload: CreateRestaurantPayload) =>
+      invokeFunction<{ id: string }>('cf_create_restaurant', payload, session?.access_token),
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['restaurants'] });
       toast.success('Restaurante criado com sucesso!');
@@ -200,9 +100,48 @@ export function Restaurants() {
     },
   });
 
+  /* ---------------------- Mutation: update -------------------- */
+  // A Edge Function refaz a geocodificação quando o endereço muda e
+  // recalcula o distance_km das parcerias existentes
+  const updateRestaurantMutation = useMutation({
+    mutationFn: (payload: UpdateRestaurantPayload) =>
+      invokeFunction<{ id: string }>('cf_update_restaurant', payload, session?.access_token),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['restaurants'] });
+      qc.invalidateQueries({ queryKey: ['partnerships'] });
+      qc.invalidateQueries({ queryKey: ['admin', 'ongoing-donations'] });
+      toast.success('Restaurante atualizado com sucesso!');
+      setEditingRestaurant(null);
+    },
+  });
+
   /* helper para o modal (async) */
-  const handleCreateRestaurant = (data: CreateRestaurantPayload) =>
-    createRestaurantMutation.mutateAsync(data);
+  const handleSubmitRestaurant = (data: CreateRestaurantPayload) => {
+    if (!editingRestaurant) return createRestaurantMutation.mutateAsync(data);
+
+    const addressChanged =
+      onlyDigits(data.cep) !== onlyDigits(editingRestaurant.cep ?? '') ||
+      data.number !== (editingRestaurant.number ?? '');
+    return updateRestaurantMutation.mutateAsync({
+      id: editingRestaurant.id,
+      name: data.name,
+      cnpj: data.cnpj,
+      code: data.code,
+      phone: data.phone,
+      cep: data.cep,
+      number: data.number,
+      street: data.street,
+      city: data.city,
+      uf: data.uf,
+      addressChanged,
+    });
+  };
+
+  /* abrir modal de edição */
+  const handleOpenEdit = (restaurant: RestaurantWithPartners) => {
+    updateRestaurantMutation.reset();
+    setEditingRestaurant(restaurant);
+  };
 
   /* abrir modal de parceria */
   const handleOpenNewPartnership = (id: string) => {
@@ -257,16 +196,29 @@ export function Restaurants() {
               Gerencie os restaurantes parceiros da plataforma
             </p>
           </div>
-          <button
-            onClick={() => {
-              createRestaurantMutation.reset();
-              setIsModalOpen(true);
-            }}
-            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Novo Restaurante
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              disabled={!canManageEntities}
+              title={canManageEntities ? undefined : NO_PERMISSION_MESSAGE}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Importar planilha
+            </button>
+            <button
+              onClick={() => {
+                createRestaurantMutation.reset();
+                setIsModalOpen(true);
+              }}
+              disabled={!canManageEntities}
+              title={canManageEntities ? undefined : NO_PERMISSION_MESSAGE}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Restaurante
+            </button>
+          </div>
         </div>
 
         {/* ---------- STAT CARDS ---------- */}
@@ -311,13 +263,20 @@ export function Restaurants() {
                   key={r.id}
                   restaurant={r}
                   onOpenPartnership={() => handleOpenNewPartnership(r.id)}
+                  onEdit={() => handleOpenEdit(r)}
+                  onChangeStatus={() => setStatusTarget(r)}
+                  onResendInvite={() => resendInviteMutation.mutate(r.id)}
+                  isResending={resendInviteMutation.isPending && resendInviteMutation.variables === r.id}
                   onToggleFavorite={(oscId, isFavorite) => 
                     toggleFavoriteMutation.mutate({ restaurantId: r.id, oscId, isFavorite })
                   }
-                  onRemovePartnership={(oscId) => 
-                    removePartnershipMutation.mutate({ restaurantId: r.id, oscId })
-                  }
+                  onRemovePartnership={(oscId) => {
+                    const partnership = r.partnerships?.find(p => p.osc.id === oscId);
+                    if (partnership) setRemovalTarget({ restaurant: r, partnership });
+                  }}
                   isUpdating={toggleFavoriteMutation.isPending || removePartnershipMutation.isPending}
+                  canManageEntities={canManageEntities}
+                  canManagePartnerships={canManagePartnerships}
                   isAccordionHidden={hiddenAccordions.has(r.id)}
                   onToggleAccordion={() => toggleAccordion(r.id)}
                 />
@@ -344,10 +303,12 @@ export function Restaurants() {
                 </div>
               </div>
             ) : (
-            <EmptyState onAdd={() => {
-              createRestaurantMutation.reset();
-              setIsModalOpen(true);
-            }} />
+            <EmptyState
+              onAdd={canManageEntities ? () => {
+                createRestaurantMutation.reset();
+                setIsModalOpen(true);
+              } : undefined}
+            />
             )
           )}
         </div>
@@ -355,13 +316,53 @@ export function Restaurants() {
 
       {/* ---------- MODAIS ---------- */}
       <RestaurantModal
-        isOpen={isModalOpen}
+        isOpen={isModalOpen || !!editingRestaurant}
+        restaurant={editingRestaurant}
         onClose={() => {
           createRestaurantMutation.reset();
+          updateRestaurantMutation.reset();
           setIsModalOpen(false);
+          setEditingRestaurant(null);
         }}
-        onSubmit={handleCreateRestaurant}
-        isLoading={createRestaurantMutation.isPending}
+        onSubmit={handleSubmitRestaurant}
+        isLoading={createRestaurantMutation.isPending || updateRestaurantMutation.isPending}
+      />
+
+      <RestaurantImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+
+      <EntityStatusModal
+        entity="restaurant"
+        target={statusTarget}
+        onClose={() => setStatusTarget(null)}
+        onConfirm={() => {
+          if (!statusTarget) return;
+          setStatusMutation.mutate(
+            { id: statusTarget.id, status: statusTarget.status === 'inactive' ? 'active' : 'inactive' },
+            { onSuccess: () => setStatusTarget(null) },
+          );
+        }}
+        isLoading={setStatusMutation.isPending}
+      />
+
+      <RemovePartnershipModal
+        target={removalTarget}
+        onClose={() => setRemovalTarget(null)}
+        onConfirm={({ force, replacementOscId }) => {
+          if (!removalTarget) return;
+          removePartnershipMutation.mutate(
+            {
+              restaurantId: removalTarget.restaurant.id,
+              oscId: removalTarget.partnership.osc.id,
+              force,
+              replacementOscId,
+            },
+            { onSuccess: () => setRemovalTarget(null) },
+          );
+        }}
+        isLoading={removePartnershipMutation.isPending}
       />
 
       <NewPartnershipModal
@@ -379,9 +380,15 @@ export function Restaurants() {
 interface RestaurantRowProps {
   restaurant: RestaurantWithPartners;
   onOpenPartnership: () => void;
+  onEdit: () => void;
+  onChangeStatus: () => void;
+  onResendInvite: () => void;
+  isResending: boolean;
   onToggleFavorite: (oscId: string, isFavorite: boolean) => void;
   onRemovePartnership: (oscId: string) => void;
   isUpdating: boolean;
+  canManageEntities: boolean;
+  canManagePartnerships: boolean;
   isAccordionHidden: boolean;
   onToggleAccordion: () => void;
 }
@@ -389,9 +396,15 @@ interface RestaurantRowProps {
 function RestaurantRow({ 
   restaurant, 
   onOpenPartnership,
+  onEdit,
+  onChangeStatus,
+  onResendInvite,
+  isResending,
   onToggleFavorite,
   onRemovePartnership,
   isUpdating,
+  canManageEntities,
+  canManagePartnerships,
   isAccordionHidden,
   onToggleAccordion
 }: RestaurantRowProps) {
@@ -411,9 +424,19 @@ function RestaurantRow({
               </div>
               <div className="ml-4 min-w-0 flex-1">
                 <div className="flex items-center space-x-3">
-                  <h3 className="text-lg font-medium text-gray-900 truncate">{restaurant.name}</h3>
+                  <Link
+                    to={`/restaurants/${restaurant.id}`}
+                    className="text-lg font-medium text-gray-900 truncate hover:text-blue-600"
+                  >
+                    {restaurant.name}
+                  </Link>
                   <StatusPill status={restaurant.status} />
                 </div>
+                {restaurant.status === 'invite_sent' && restaurant.invite_sent_at && (
+                  <div className="mt-1 text-xs text-yellow-700">
+                    Último convite: {formatDateTime(restaurant.invite_sent_at)}
+                  </div>
+                )}
                 <div className="mt-1 space-y-1">
                   <div className="flex items-center text-sm text-gray-600">
                     <Mail className="h-3 w-3 mr-2 text-gray-400 flex-shrink-0" />
@@ -480,10 +503,47 @@ function RestaurantRow({
           </div>
 
           {/* Ações */}
-          <div className="flex items-center flex-shrink-0">
+          <div className="flex items-center flex-shrink-0 space-x-2">
+            {canManageEntities && (
+              <>
+                <button
+                  onClick={onEdit}
+                  className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  title="Editar restaurante"
+                >
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Editar
+                </button>
+                {restaurant.status === 'invite_sent' && (
+                  <button
+                    onClick={onResendInvite}
+                    disabled={isResending}
+                    className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-yellow-700 bg-yellow-50 rounded-md hover:bg-yellow-100 disabled:opacity-50 transition-colors"
+                    title="Reenviar convite"
+                  >
+                    <Send className="h-3 w-3 mr-1" />
+                    {isResending ? 'Enviando...' : 'Reenviar convite'}
+                  </button>
+                )}
+                <button
+                  onClick={onChangeStatus}
+                  className={`inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                    restaurant.status === 'inactive'
+                      ? 'text-green-700 bg-green-50 hover:bg-green-100'
+                      : 'text-red-600 bg-red-50 hover:bg-red-100'
+                  }`}
+                  title={restaurant.status === 'inactive' ? 'Reativar restaurante' : 'Desativar restaurante'}
+                >
+                  <Power className="h-3 w-3 mr-1" />
+                  {restaurant.status === 'inactive' ? 'Reativar' : 'Desativar'}
+                </button>
+              </>
+            )}
             <button
               onClick={onOpenPartnership}
-              className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+              disabled={!canManagePartnerships}
+              title={canManagePartnerships ? undefined : NO_PERMISSION_MESSAGE}
+              className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               <Plus className="h-3 w-3 mr-1" />
               {hasPartnerships ? 'Nova Parceria' : 'Criar Parceria'}
@@ -518,91 +578,6 @@ function RestaurantRow({
   );
 }
 
-/* ------------------------------------------------------------------ */
-/* Card de parceria individual                                         */
-/* ------------------------------------------------------------------ */
-interface PartnershipCardProps {
-  partnership: Partnership;
-  onToggleFavorite: (isFavorite: boolean) => void;
-  onRemove: () => void;
-  isUpdating: boolean;
-}
-
-function PartnershipCard({ partnership, onToggleFavorite, onRemove, isUpdating }: PartnershipCardProps) {
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('pt-BR', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric',
-    });
-  };
-
-  return (
-    <div className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-lg hover:border-blue-200 transition-all duration-200">
-      <div className="flex items-start justify-between mb-3">
-        <div className="flex items-start space-x-3 flex-1 min-w-0">
-          <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center flex-shrink-0">
-            <Building2 className="w-5 h-5 text-green-600" />
-          </div>
-          <div className="flex-1 min-w-0">
-            <h5 className="font-medium text-gray-900 text-sm truncate mb-2">{partnership.osc.name}</h5>
-            {partnership.osc.city && partnership.osc.uf && (
-              <div className="flex items-center text-xs text-gray-600">
-                <MapPin className="w-3 h-3 mr-1" />
-                {partnership.osc.city}, {partnership.osc.uf}
-              </div>
-            )}
-            {partnership.osc.street && partnership.osc.number && (
-              <div className="text-xs text-gray-500 mt-1">
-                {partnership.osc.street}, {partnership.osc.number}
-              </div>
-            )}
-            <div className="flex items-center text-xs text-gray-600 mt-2">
-              <span className="text-gray-500">Distância:</span>
-              <span className="font-medium text-gray-900 ml-1">{partnership.distance_km.toFixed(1)} km</span>
-            </div>
-          </div>
-        </div>
-        
-        {/* Botões no topo direito */}
-        <div className="flex flex-col space-y-2 flex-shrink-0">
-          <button
-            onClick={() => onToggleFavorite(!partnership.is_favorite)}
-            disabled={isUpdating}
-            className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${
-              partnership.is_favorite
-                ? 'bg-red-100 text-red-700 hover:bg-red-200'
-                : 'bg-gray-100 text-gray-700 hover:bg-yellow-100 hover:text-yellow-700'
-            }`}
-            title={partnership.is_favorite ? 'Remover dos favoritos' : 'Marcar como favorita'}
-          >
-            <Heart className={`w-3 h-3 ${partnership.is_favorite ? 'fill-current' : ''}`} />
-            <span>{partnership.is_favorite ? 'Favorita' : 'Favoritar'}</span>
-          </button>
-          
-          <button
-            onClick={onRemove}
-            disabled={isUpdating}
-            className="flex items-center space-x-1 px-2 py-1 bg-red-50 text-red-600 rounded-md hover:bg-red-100 transition-colors text-xs font-medium disabled:opacity-50"
-            title="Remover parceria"
-          >
-            <Trash2 className="w-3 h-3" />
-            <span>Remover</span>
-          </button>
-        </div>
-      </div>
-
-      {/* Data da parceria */}
-      <div className="pt-3 border-t border-gray-150">
-        <div className="flex items-center justify-between text-xs">
-          <span className="text-gray-500">Parceria desde:</span>
-          <span className="text-gray-700">{formatDate(partnership.created_at)}</span>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 /* ------------------------------------------------------------------ */
 /* Sub-componentes utilitários                                         */
 /* ------------------------------------------------------------------ */
@@ -642,21 +617,26 @@ const StatusPill = ({ status }: { status: RestaurantWithPartners['status'] }) =>
   );
 };
 
-const EmptyState = ({ onAdd }: { onAdd: () => void }) => (
+// Sem `onAdd` (papel sem permissão), o estado vazio fica só informativo
+const EmptyState = ({ onAdd }: { onAdd?: () => void }) => (
   <div className="text-center py-12">
     <Users className="mx-auto h-12 w-12 text-gray-400" />
     <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum restaurante</h3>
-    <p className="mt-1 text-sm text-gray-500">
-      Comece criando um novo restaurante.
-    </p>
-    <div className="mt-6">
-      <button
-        onClick={onAdd}
-        className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
-      >
-        <Plus className="h-4 w-4 mr-2" />
-        Novo Restaurante
-      </button>
-    </div>
+    {onAdd && (
+      <>
+        <p className="mt-1 text-sm text-gray-500">
+          Comece criando um novo restaurante.
+        </p>
+        <div className="mt-6">
+          <button
+            onClick={onAdd}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Restaurante
+          </button>
+        </div>
+      </>
+    )}
   </div>
 );
\ No newline at end of file